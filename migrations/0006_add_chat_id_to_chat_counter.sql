@@ -0,0 +1,57 @@
+-- Migration to scope chat_counter by chat so the bot can count several groups separately
+-- Existing counters have no chat information. They are backfilled from
+-- telegram_channel_messages where the archive covers them, and whatever the
+-- archive cannot explain is kept under chat_id = '' so global totals don't change.
+CREATE TABLE temp_chat_counter (
+  chat_date TEXT NOT NULL,
+  platform TEXT NOT NULL,
+  chat_id TEXT NOT NULL DEFAULT '',  -- platform-specific chat ID ('' for legacy/unknown)
+  user_id TEXT NOT NULL,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  message_length INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (chat_date, platform, chat_id, user_id)
+);
+
+-- Backfill per-chat counts from the message archive
+INSERT INTO temp_chat_counter (chat_date, platform, chat_id, user_id, message_count, message_length)
+SELECT
+  substr(message_date, 1, 10),
+  'telegram',
+  chat_id,
+  sender_id,
+  COUNT(*),
+  SUM(LENGTH(COALESCE(message_text, '')))
+FROM telegram_channel_messages
+WHERE sender_id IS NOT NULL
+GROUP BY substr(message_date, 1, 10), chat_id, sender_id;
+
+-- Keep the remainder of each old counter (e.g. messages in blacklisted topics) as legacy rows
+INSERT INTO temp_chat_counter (chat_date, platform, chat_id, user_id, message_count, message_length)
+SELECT
+  cc.chat_date,
+  cc.platform,
+  '',
+  cc.user_id,
+  cc.message_count - COALESCE(archived.message_count, 0),
+  MAX(cc.message_length - COALESCE(archived.message_length, 0), 0)
+FROM chat_counter cc
+LEFT JOIN (
+  SELECT chat_date, platform, user_id,
+    SUM(message_count) AS message_count,
+    SUM(message_length) AS message_length
+  FROM temp_chat_counter
+  GROUP BY chat_date, platform, user_id
+) archived
+  ON archived.chat_date = cc.chat_date
+  AND archived.platform = cc.platform
+  AND archived.user_id = cc.user_id
+WHERE cc.message_count > COALESCE(archived.message_count, 0);
+
+-- Drop original table
+DROP TABLE chat_counter;
+
+-- Rename temporary table to original name
+ALTER TABLE temp_chat_counter RENAME TO chat_counter;
+
+-- Create index for per-chat leaderboards and stats
+CREATE INDEX idx_chat_counter_chat ON chat_counter (platform, chat_id, chat_date);
@@ -0,0 +1,5 @@
+-- Migration to store platform usernames so commands can look members up by @username
+ALTER TABLE users ADD COLUMN username TEXT;
+
+-- Create index for case-insensitive username lookups
+CREATE INDEX idx_users_username ON users (platform, username COLLATE NOCASE);
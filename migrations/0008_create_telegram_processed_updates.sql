@@ -0,0 +1,8 @@
+-- Migration to track processed Telegram updates so redelivered updates are not counted twice
+CREATE TABLE telegram_processed_updates (
+  update_id INTEGER PRIMARY KEY,    -- TelegramUpdate.update_id
+  processed_at TEXT NOT NULL        -- ISO format timestamp, used to expire old rows
+);
+
+-- Create index for expiring old rows
+CREATE INDEX idx_telegram_processed_updates_processed_at ON telegram_processed_updates (processed_at);
@@ -0,0 +1,15 @@
+-- Migration to keep the edit history of archived Telegram messages
+-- telegram_channel_messages always holds the latest text; earlier versions go here
+CREATE TABLE telegram_message_edits (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chat_id TEXT NOT NULL,            -- Telegram chat ID
+  message_id TEXT NOT NULL,         -- Telegram message ID
+  previous_text TEXT,               -- Message content before this edit
+  edited_at TEXT NOT NULL           -- ISO format timestamp of the edit (Telegram edit_date)
+);
+
+-- Create index for looking up the history of a message
+CREATE INDEX idx_telegram_message_edits_message ON telegram_message_edits (chat_id, message_id);
+
+-- Track when the archived text was last edited
+ALTER TABLE telegram_channel_messages ADD COLUMN edited_at TEXT;
@@ -0,0 +1,28 @@
+-- Migration to scope blacklisted topics by chat, since thread IDs are only unique within one supergroup
+-- Existing entries get chat_id = '' and keep applying to every chat
+CREATE TABLE temp_blacklist_topic (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chat_id TEXT NOT NULL DEFAULT '',   -- Telegram chat ID ('' for legacy entries that apply everywhere)
+  message_thread_id TEXT NOT NULL,
+  created_by TEXT,                    -- Telegram user ID of the admin who added the entry
+  created_at TEXT,                    -- ISO format timestamp
+  UNIQUE (chat_id, message_thread_id)
+);
+
+-- Copy existing entries
+INSERT INTO temp_blacklist_topic (id, chat_id, message_thread_id)
+SELECT id, '', message_thread_id
+FROM blacklist_topic;
+
+-- Drop original table
+DROP TABLE blacklist_topic;
+
+-- Rename temporary table to original name
+ALTER TABLE temp_blacklist_topic RENAME TO blacklist_topic;
+
+-- Create a cache of chat administrators so admin-only commands don't call Telegram every time
+CREATE TABLE telegram_chat_admins (
+  chat_id TEXT PRIMARY KEY,           -- Telegram chat ID
+  admin_ids TEXT NOT NULL,            -- JSON array of administrator user IDs
+  fetched_at TEXT NOT NULL            -- ISO format timestamp of the getChatAdministrators call
+);
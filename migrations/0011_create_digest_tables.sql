@@ -0,0 +1,22 @@
+-- Migration to support scheduled digest summaries
+-- Create digest_subscriptions table: which chats/topics receive a digest and how often
+CREATE TABLE digest_subscriptions (
+  chat_id TEXT NOT NULL,                    -- Telegram chat ID
+  message_thread_id TEXT NOT NULL DEFAULT '', -- Forum topic to summarize and post in ('' for the whole chat)
+  frequency TEXT NOT NULL,                  -- 'daily' or 'weekly'
+  min_messages INTEGER NOT NULL DEFAULT 10, -- Skip the digest when the window has fewer messages
+  created_by TEXT,                          -- Telegram user ID of the admin who subscribed
+  created_at TEXT NOT NULL,                 -- ISO format timestamp
+  PRIMARY KEY (chat_id, message_thread_id)
+);
+
+-- Create digest_runs table: windows that have already been summarized, so a retried cron never posts twice
+CREATE TABLE digest_runs (
+  chat_id TEXT NOT NULL,
+  message_thread_id TEXT NOT NULL DEFAULT '',
+  window_start TEXT NOT NULL,               -- ISO format timestamp (inclusive)
+  window_end TEXT NOT NULL,                 -- ISO format timestamp (exclusive)
+  status TEXT NOT NULL,                     -- 'pending', 'posted' or 'skipped'
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (chat_id, message_thread_id, window_start)
+);
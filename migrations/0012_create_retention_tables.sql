@@ -0,0 +1,25 @@
+-- Migration to support pruning old archived messages
+-- Create chat_settings table for per-chat configuration
+CREATE TABLE chat_settings (
+  chat_id TEXT PRIMARY KEY,         -- Telegram chat ID
+  retention_days INTEGER,           -- Days to keep archived messages (NULL = default, 0 = forever)
+  updated_at TEXT NOT NULL          -- ISO format timestamp
+);
+
+-- Create telegram_message_aggregates table: pruned messages are folded in here so historical stats survive
+CREATE TABLE telegram_message_aggregates (
+  chat_id TEXT NOT NULL,
+  message_thread_id TEXT NOT NULL DEFAULT '',  -- '' for messages outside a forum topic
+  sender_id TEXT NOT NULL DEFAULT '',          -- '' for messages without a sender
+  message_day TEXT NOT NULL,                   -- 'YYYY-MM-DD' (UTC)
+  message_hour INTEGER NOT NULL,               -- 0-23 (UTC)
+  message_count INTEGER NOT NULL DEFAULT 0,
+  text_length INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (chat_id, message_thread_id, sender_id, message_day, message_hour)
+);
+
+-- Create index for per-user stats over aggregates
+CREATE INDEX idx_telegram_message_aggregates_sender ON telegram_message_aggregates (sender_id);
+
+-- Create index so pruning and per-chat fetches don't scan the whole archive
+CREATE INDEX idx_telegram_channel_messages_chat_date ON telegram_channel_messages (chat_id, message_date);
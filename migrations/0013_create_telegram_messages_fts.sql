@@ -0,0 +1,13 @@
+-- Migration to add full-text search over archived Telegram messages
+-- Each row's rowid matches the rowid of its telegram_channel_messages row.
+-- The application keeps it in sync when messages are recorded, edited and pruned.
+CREATE VIRTUAL TABLE telegram_messages_fts USING fts5(
+  message_text,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Index the existing archive
+INSERT INTO telegram_messages_fts (rowid, message_text)
+SELECT rowid, message_text
+FROM telegram_channel_messages
+WHERE COALESCE(message_text, '') != '';
@@ -0,0 +1,20 @@
+-- Migration to archive Discord messages relayed to /discord/webhook
+CREATE TABLE discord_channel_messages (
+  message_id TEXT NOT NULL,         -- Discord message ID (snowflake)
+  channel_id TEXT NOT NULL,         -- Discord channel ID (snowflake)
+  guild_id TEXT,                    -- Discord server ID, null for direct messages
+  sender_id TEXT NOT NULL,          -- Discord user ID
+  sender_name TEXT NOT NULL,        -- Sender display name
+  message_text TEXT,                -- Message content
+  message_date TEXT NOT NULL,       -- ISO format timestamp
+  PRIMARY KEY (channel_id, message_id)
+);
+
+CREATE INDEX idx_discord_channel_messages_channel_date ON discord_channel_messages (channel_id, message_date);
+CREATE INDEX idx_discord_channel_messages_sender ON discord_channel_messages (sender_id);
+
+-- Full-text search over the archive; each rowid matches its discord_channel_messages row
+CREATE VIRTUAL TABLE discord_messages_fts USING fts5(
+  message_text,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
@@ -0,0 +1,12 @@
+-- Migration to record every change to a user's linked website account
+CREATE TABLE link_audit (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  platform TEXT NOT NULL,                -- 'telegram' or 'discord'
+  user_id TEXT NOT NULL,                 -- Platform-specific user ID
+  action TEXT NOT NULL,                  -- 'link', 'relink' or 'unlink'
+  previous_linked_user_id TEXT,          -- Website user ID before the change
+  linked_user_id TEXT,                   -- Website user ID after the change, null after unlinking
+  created_at TEXT NOT NULL               -- ISO format timestamp
+);
+
+CREATE INDEX idx_link_audit_user ON link_audit (platform, user_id, created_at);
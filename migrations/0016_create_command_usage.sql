@@ -0,0 +1,14 @@
+-- Migration to support command cooldowns and daily quotas
+-- Create command_usage table: one row per rate-limited command call
+CREATE TABLE command_usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  platform TEXT NOT NULL,                -- 'telegram' or 'discord'
+  chat_id TEXT NOT NULL,                 -- Telegram chat ID or Discord channel ID
+  user_id TEXT NOT NULL,                 -- Platform-specific user ID
+  command TEXT NOT NULL,                 -- Command name without the leading slash
+  used_at TEXT NOT NULL                  -- ISO format timestamp
+);
+
+-- Create indexes for the per-chat and per-user lookups
+CREATE INDEX idx_command_usage_chat ON command_usage (platform, chat_id, command, used_at);
+CREATE INDEX idx_command_usage_user ON command_usage (platform, user_id, command, used_at);
@@ -0,0 +1,17 @@
+-- Migration to reuse /summary results until new messages arrive
+-- Create summary_cache table: the latest summary for each chat, topic and prompt
+CREATE TABLE summary_cache (
+  platform TEXT NOT NULL,                      -- 'telegram' or 'discord'
+  chat_id TEXT NOT NULL,                       -- Telegram chat ID or Discord channel ID
+  message_thread_id TEXT NOT NULL DEFAULT '',  -- '' for the whole chat
+  prompt TEXT NOT NULL DEFAULT '',             -- Normalized custom prompt ('' for a general summary)
+  last_message_id TEXT NOT NULL,               -- Newest message covered by the summary
+  message_count INTEGER NOT NULL,              -- Messages covered, including earlier incremental runs
+  summary TEXT NOT NULL,                       -- Summary as Telegram HTML
+  created_at TEXT NOT NULL,                    -- ISO format timestamp of the last full summary
+  updated_at TEXT NOT NULL,                    -- ISO format timestamp of the last update
+  PRIMARY KEY (platform, chat_id, message_thread_id, prompt)
+);
+
+-- Create index so the cron job can drop stale summaries
+CREATE INDEX idx_summary_cache_updated_at ON summary_cache (updated_at);
@@ -0,0 +1,6 @@
+-- Migration to choose the AI model for summaries per chat and record which model wrote each summary
+-- Model name from /model (NULL = the default model chain)
+ALTER TABLE chat_settings ADD COLUMN summary_model TEXT;
+
+-- Model that wrote the cached summary (NULL for summaries cached before this migration)
+ALTER TABLE summary_cache ADD COLUMN model TEXT;
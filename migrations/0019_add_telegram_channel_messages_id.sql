@@ -0,0 +1,43 @@
+-- Migration to give archived Telegram messages an explicit INTEGER PRIMARY KEY
+-- telegram_messages_fts rows are keyed by the archive row's rowid. Without an
+-- INTEGER PRIMARY KEY that rowid is implicit and VACUUM may renumber it, so the
+-- index could point at the wrong messages. Existing rowids are kept as the new IDs.
+CREATE TABLE temp_telegram_channel_messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT, -- Also the rowid of the message's telegram_messages_fts row
+  message_id TEXT NOT NULL,         -- Telegram message ID
+  chat_id TEXT NOT NULL,            -- Telegram chat ID (channel or supergroup)
+  chat_type TEXT NOT NULL,          -- 'channel' or 'supergroup'
+  chat_title TEXT NOT NULL,         -- Name of the channel or supergroup
+  sender_id TEXT,                   -- Sender user ID if available (might be null for channel posts)
+  sender_name TEXT,                 -- Sender display name if available
+  message_text TEXT,                -- Message content
+  message_date TEXT NOT NULL,       -- ISO format timestamp
+  media_type TEXT,                  -- Type of media if any (photo, video, document, etc.)
+  forwarded_from TEXT,              -- Original source if message is forwarded
+  reply_to_message_id TEXT,         -- ID of message being replied to (if any)
+  message_thread_id TEXT,           -- Forum topic ID (if any)
+  edited_at TEXT,                   -- ISO format timestamp of the latest edit (if any)
+  UNIQUE (chat_id, message_id)
+);
+
+-- Copy existing messages, keeping their rowids
+INSERT INTO temp_telegram_channel_messages (
+  id, message_id, chat_id, chat_type, chat_title, sender_id, sender_name, message_text,
+  message_date, media_type, forwarded_from, reply_to_message_id, message_thread_id, edited_at
+)
+SELECT rowid, message_id, chat_id, chat_type, chat_title, sender_id, sender_name, message_text,
+  message_date, media_type, forwarded_from, reply_to_message_id, message_thread_id, edited_at
+FROM telegram_channel_messages;
+
+-- Drop original table
+DROP TABLE telegram_channel_messages;
+
+-- Rename temporary table to original name
+ALTER TABLE temp_telegram_channel_messages RENAME TO telegram_channel_messages;
+
+-- Recreate the indexes
+CREATE INDEX idx_telegram_channel_messages_date ON telegram_channel_messages (message_date);
+CREATE INDEX idx_telegram_channel_messages_sender ON telegram_channel_messages (sender_id);
+CREATE INDEX idx_telegram_channel_messages_chat_type ON telegram_channel_messages (chat_type);
+CREATE INDEX idx_telegram_channel_messages_thread ON telegram_channel_messages (message_thread_id);
+CREATE INDEX idx_telegram_channel_messages_chat_date ON telegram_channel_messages (chat_id, message_date);
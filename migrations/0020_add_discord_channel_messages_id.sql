@@ -0,0 +1,31 @@
+-- Migration to give archived Discord messages an explicit INTEGER PRIMARY KEY
+-- discord_messages_fts rows are keyed by the archive row's rowid, which VACUUM may
+-- renumber while it is implicit. Existing rowids are kept as the new IDs.
+CREATE TABLE temp_discord_channel_messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT, -- Also the rowid of the message's discord_messages_fts row
+  message_id TEXT NOT NULL,         -- Discord message ID (snowflake)
+  channel_id TEXT NOT NULL,         -- Discord channel ID (snowflake)
+  guild_id TEXT,                    -- Discord server ID, null for direct messages
+  sender_id TEXT NOT NULL,          -- Discord user ID
+  sender_name TEXT NOT NULL,        -- Sender display name
+  message_text TEXT,                -- Message content
+  message_date TEXT NOT NULL,       -- ISO format timestamp
+  UNIQUE (channel_id, message_id)
+);
+
+-- Copy existing messages, keeping their rowids
+INSERT INTO temp_discord_channel_messages (
+  id, message_id, channel_id, guild_id, sender_id, sender_name, message_text, message_date
+)
+SELECT rowid, message_id, channel_id, guild_id, sender_id, sender_name, message_text, message_date
+FROM discord_channel_messages;
+
+-- Drop original table
+DROP TABLE discord_channel_messages;
+
+-- Rename temporary table to original name
+ALTER TABLE temp_discord_channel_messages RENAME TO discord_channel_messages;
+
+-- Recreate the indexes
+CREATE INDEX idx_discord_channel_messages_channel_date ON discord_channel_messages (channel_id, message_date);
+CREATE INDEX idx_discord_channel_messages_sender ON discord_channel_messages (sender_id);
@@ -0,0 +1,25 @@
+-- Migration to key digest runs by frequency as well, since a daily and a weekly window
+-- can start on the same day after a chat switches between them
+CREATE TABLE temp_digest_runs (
+  chat_id TEXT NOT NULL,
+  message_thread_id TEXT NOT NULL DEFAULT '',
+  frequency TEXT NOT NULL,                  -- 'daily' or 'weekly'
+  window_start TEXT NOT NULL,               -- ISO format timestamp (inclusive)
+  window_end TEXT NOT NULL,                 -- ISO format timestamp (exclusive)
+  status TEXT NOT NULL,                     -- 'pending', 'posted' or 'skipped'
+  created_at TEXT NOT NULL,                 -- ISO format timestamp of the claim
+  PRIMARY KEY (chat_id, message_thread_id, frequency, window_start)
+);
+
+-- Copy existing runs; weekly windows are the ones spanning seven days
+INSERT INTO temp_digest_runs (chat_id, message_thread_id, frequency, window_start, window_end, status, created_at)
+SELECT chat_id, message_thread_id,
+  CASE WHEN julianday(window_end) - julianday(window_start) >= 7 THEN 'weekly' ELSE 'daily' END,
+  window_start, window_end, status, created_at
+FROM digest_runs;
+
+-- Drop original table
+DROP TABLE digest_runs;
+
+-- Rename temporary table to original name
+ALTER TABLE temp_digest_runs RENAME TO digest_runs;
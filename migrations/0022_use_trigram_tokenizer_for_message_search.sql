@@ -0,0 +1,28 @@
+-- Migration to rebuild the message search indexes with the trigram tokenizer
+-- unicode61 splits text into words at spaces and punctuation, but Khmer is written
+-- without spaces between words, so a word in the middle of a sentence was never
+-- found. trigram matches any substring of at least 3 characters instead; shorter
+-- terms are matched with LIKE by the application.
+DROP TABLE telegram_messages_fts;
+
+CREATE VIRTUAL TABLE telegram_messages_fts USING fts5(
+  message_text,
+  tokenize = 'trigram'
+);
+
+INSERT INTO telegram_messages_fts (rowid, message_text)
+SELECT id, message_text
+FROM telegram_channel_messages
+WHERE COALESCE(message_text, '') != '';
+
+DROP TABLE discord_messages_fts;
+
+CREATE VIRTUAL TABLE discord_messages_fts USING fts5(
+  message_text,
+  tokenize = 'trigram'
+);
+
+INSERT INTO discord_messages_fts (rowid, message_text)
+SELECT id, message_text
+FROM discord_channel_messages
+WHERE COALESCE(message_text, '') != '';
@@ -0,0 +1,96 @@
+import { ParsedCommand } from '../utils/command-helpers';
+import { CommandContext } from './context';
+import {
+  addTelegramThreadIdToBlacklist,
+  listBlacklistedTelegramThreads,
+  removeTelegramThreadIdFromBlacklist,
+} from '../utils/db-helpers';
+
+const USAGE =
+  '❌ Invalid format. Please use: /blacklist add|remove [topic_id] or /blacklist list\n\n' +
+  'Run <i>add</i> or <i>remove</i> inside a topic to act on that topic.';
+
+/**
+ * Process the /blacklist command
+ * Messages in blacklisted topics are counted but not archived, so they never reach /summary.
+ * Registered as admin-only, see commands/index.ts
+ *
+ * @param ctx - Command context
+ * @param command - Parsed command
+ */
+export async function processBlacklistCommand(
+  ctx: CommandContext,
+  command: ParsedCommand
+): Promise<void> {
+  const { chatId, threadId } = ctx;
+  const timestamp = new Date().toISOString();
+
+  try {
+    console.log(
+      `[${timestamp}] Processing /blacklist command for chat ${chatId}${
+        threadId ? `, thread ${threadId}` : ''
+      }`
+    );
+
+    const userId = ctx.user?.id || 'Unknown ID';
+    const [action, explicitThreadId] = command.args;
+
+    if (action === 'list') {
+      const topics = await listBlacklistedTelegramThreads(ctx.env.DB, chatId);
+      const text =
+        topics.length === 0
+          ? 'No topics are blacklisted in this group.'
+          : `<b>🚫 Blacklisted topics:</b>\n\n${topics
+              .map(
+                topic =>
+                  `• Topic ${topic.message_thread_id}${topic.chat_id === '' ? ' <i>(all groups)</i>' : ''}`
+              )
+              .join('\n')}`;
+      await ctx.reply(text);
+      return;
+    }
+
+    if (action !== 'add' && action !== 'remove') {
+      await ctx.reply(USAGE);
+      return;
+    }
+
+    const targetThreadId = explicitThreadId ?? threadId;
+    if (!targetThreadId || !/^\d+$/.test(targetThreadId)) {
+      await ctx.reply(USAGE);
+      return;
+    }
+
+    let reply: string;
+    if (action === 'add') {
+      const added = await addTelegramThreadIdToBlacklist(
+        ctx.env.DB,
+        chatId,
+        targetThreadId,
+        userId
+      );
+      reply = added
+        ? `✅ Topic ${targetThreadId} is now blacklisted. New messages there won't be archived or summarized.`
+        : `ℹ️ Topic ${targetThreadId} is already blacklisted.`;
+    } else {
+      const removed = await removeTelegramThreadIdFromBlacklist(ctx.env.DB, chatId, targetThreadId);
+      // Legacy entries apply to every group, so one group's admins can't remove them
+      const legacy =
+        !removed &&
+        (await listBlacklistedTelegramThreads(ctx.env.DB, chatId)).some(
+          topic => topic.chat_id === '' && topic.message_thread_id === targetThreadId
+        );
+      reply = removed
+        ? `✅ Topic ${targetThreadId} is no longer blacklisted.`
+        : legacy
+          ? `ℹ️ Topic ${targetThreadId} is blacklisted for all groups by an older setting. Ask the bot operator to remove it.`
+          : `ℹ️ Topic ${targetThreadId} is not blacklisted.`;
+    }
+
+    console.log(`[${timestamp}] /blacklist ${action} ${targetThreadId} in chat ${chatId}`);
+    await ctx.reply(reply);
+  } catch (error) {
+    console.error(`[${timestamp}] Error processing blacklist command:`, error);
+    await ctx.reply('Sorry, an error occurred while updating the blacklist.');
+  }
+}
@@ -0,0 +1,276 @@
+import { Context } from 'hono';
+import { TelegramMessage, TelegramUser } from '../types/telegram';
+import { DiscordInteraction } from '../types/discord';
+import {
+  isTelegramChatAdmin,
+  resumeTelegramLiveMessage,
+  sendTelegramMessage,
+  startTelegramLiveMessage,
+} from '../utils/telegram-helpers';
+import { createTelegramClient, TelegramClient } from '../utils/telegram-client';
+import {
+  editDiscordInteractionResponse,
+  sendDiscordFollowupMessage,
+  splitHTMLToDiscordMarkdown,
+} from '../utils/discord-helpers';
+
+export type CommandPlatform = 'telegram' | 'discord';
+
+// Telegram chat types, plus 'guild' for Discord server channels
+export type ChatType = 'private' | 'group' | 'supergroup' | 'channel' | 'guild';
+
+export interface CommandUser {
+  id: string;
+  displayName: string;
+  username?: string;
+}
+
+/**
+ * Where a live reply was posted, so a later invocation (e.g. a queue consumer) can finish it
+ */
+export type LiveReplyTarget =
+  | { platform: 'telegram'; chatId: string; messageId: number; threadId?: string }
+  | { platform: 'discord'; applicationId: string; interactionToken: string };
+
+/**
+ * A reply that is posted right away and replaced once the answer is ready
+ */
+export interface LiveReply {
+  // Show a partial answer, if the platform supports it and the rate limits allow it
+  update: (text: string) => void;
+  // Replace the reply with the final answer
+  finish: (text: string) => Promise<void>;
+  target: LiveReplyTarget;
+}
+
+/**
+ * Everything a command needs to know about where it was called from and how to answer
+ */
+export interface CommandContext {
+  platform: CommandPlatform;
+  env: CloudflareBindings;
+  // Keep work running after the webhook has responded
+  waitUntil: (promise: Promise<unknown>) => void;
+  // Telegram chat ID or Discord channel ID
+  chatId: string;
+  chatType: ChatType;
+  // Forum topic, Telegram only
+  threadId?: string;
+  // The message that invoked the command, Telegram only
+  messageId?: string;
+  // Who called the command
+  user: CommandUser | null;
+  // The message the command replied to, Telegram only
+  replyTo?: { messageId: string; user?: CommandUser };
+  // Reply to the command; text is formatted with Telegram's HTML subset
+  reply: (text: string) => Promise<void>;
+  // Reply with a placeholder that is updated while a slow answer is generated
+  replyLive: (placeholder: string) => Promise<LiveReply>;
+  // Show that the bot is working on an answer
+  sendTyping: () => Promise<void>;
+  // Whether the caller administers the chat
+  isAdmin: () => Promise<boolean>;
+  // Raw update and Bot API client for Telegram-only features
+  telegram?: { message: TelegramMessage; client: TelegramClient };
+}
+
+/**
+ * Describe a Telegram user for a command context
+ *
+ * @param user - Telegram user
+ * @returns CommandUser
+ */
+function toTelegramCommandUser(user: TelegramUser): CommandUser {
+  return {
+    id: user.id.toString(),
+    displayName: user.first_name
+      ? `${user.first_name}${user.last_name ? ' ' + user.last_name : ''}`
+      : user.username || 'Unknown User',
+    username: user.username,
+  };
+}
+
+/**
+ * Build a command context for a Telegram message
+ *
+ * @param c - Hono context
+ * @param message - Telegram message containing the command
+ * @returns CommandContext
+ */
+export function createTelegramCommandContext(
+  c: Context<{ Bindings: CloudflareBindings }>,
+  message: TelegramMessage
+): CommandContext {
+  const client = createTelegramClient(c.env);
+  const chatId = message.chat.id.toString();
+  const threadId = message.message_thread_id?.toString();
+  // In forum topics every message without a real reply points at the topic's first message
+  const replyTo =
+    message.reply_to_message?.message_id === message.message_thread_id
+      ? undefined
+      : message.reply_to_message;
+
+  return {
+    platform: 'telegram',
+    env: c.env,
+    waitUntil: promise => c.executionCtx.waitUntil(promise),
+    chatId,
+    chatType: message.chat.type as ChatType,
+    threadId,
+    messageId: message.message_id.toString(),
+    user: message.from ? toTelegramCommandUser(message.from) : null,
+    replyTo: replyTo
+      ? {
+          messageId: replyTo.message_id.toString(),
+          user:
+            replyTo.from && !replyTo.from.is_bot ? toTelegramCommandUser(replyTo.from) : undefined,
+        }
+      : undefined,
+    reply: async text => {
+      await sendTelegramMessage(client, chatId, text, threadId, message.message_id);
+    },
+    replyLive: async placeholder => {
+      const live = await startTelegramLiveMessage(
+        client,
+        chatId,
+        placeholder,
+        threadId,
+        message.message_id
+      );
+      return {
+        update: live.update,
+        finish: live.finish,
+        target: { platform: 'telegram', chatId, messageId: live.messageId, threadId },
+      };
+    },
+    sendTyping: async () => {
+      // Only cosmetic, so a failure must not stop the command
+      try {
+        await client.sendChatAction({
+          chat_id: chatId,
+          action: 'typing',
+          message_thread_id: threadId,
+        });
+      } catch (error) {
+        console.error(`[${new Date().toISOString()}] Error sending typing action:`, error);
+      }
+    },
+    isAdmin: async () => {
+      const userId = message.from?.id.toString();
+      return userId ? await isTelegramChatAdmin(c.env.DB, client, chatId, userId) : false;
+    },
+    telegram: { message, client },
+  };
+}
+
+// Discord permission bits that make a member a server admin for our purposes
+const DISCORD_ADMINISTRATOR = BigInt(0x8);
+const DISCORD_MANAGE_GUILD = BigInt(0x20);
+
+/**
+ * Create the reply function of a deferred Discord interaction
+ *
+ * The first reply replaces the deferred response and later replies are sent as
+ * follow-up messages. Long replies are split, with the parts after the first
+ * sent as follow-ups too.
+ *
+ * @param applicationId - Discord application ID
+ * @param interactionToken - Token of the interaction being answered
+ * @returns Reply function taking Telegram HTML
+ */
+function createDiscordInteractionReply(
+  applicationId: string,
+  interactionToken: string
+): (text: string) => Promise<void> {
+  let hasReplied = false;
+
+  return async text => {
+    for (const content of splitHTMLToDiscordMarkdown(text)) {
+      if (hasReplied) {
+        await sendDiscordFollowupMessage(applicationId, interactionToken, content);
+      } else {
+        hasReplied = true;
+        await editDiscordInteractionResponse(applicationId, interactionToken, content);
+      }
+    }
+  };
+}
+
+/**
+ * Build a command context for a Discord application command interaction
+ *
+ * The interaction must already have been answered with a deferred response. The
+ * first reply replaces Discord's "thinking…" placeholder and later replies are
+ * sent as follow-up messages.
+ *
+ * @param c - Hono context
+ * @param interaction - Discord interaction
+ * @returns CommandContext
+ */
+export function createDiscordCommandContext(
+  c: Context<{ Bindings: CloudflareBindings }>,
+  interaction: DiscordInteraction
+): CommandContext {
+  const discordUser = interaction.member?.user ?? interaction.user;
+  const reply = createDiscordInteractionReply(interaction.application_id, interaction.token);
+
+  return {
+    platform: 'discord',
+    env: c.env,
+    waitUntil: promise => c.executionCtx.waitUntil(promise),
+    chatId: interaction.channel_id ?? '',
+    chatType: interaction.guild_id ? 'guild' : 'private',
+    user: discordUser
+      ? {
+          id: discordUser.id,
+          displayName: interaction.member?.nick || discordUser.global_name || discordUser.username,
+          username: discordUser.username,
+        }
+      : null,
+    reply,
+    // Partial answers aren't shown on Discord, only the final one
+    replyLive: async () => ({
+      update: () => {},
+      finish: reply,
+      target: {
+        platform: 'discord',
+        applicationId: interaction.application_id,
+        interactionToken: interaction.token,
+      },
+    }),
+    // The deferred response already shows a "thinking…" indicator
+    sendTyping: async () => {},
+    isAdmin: async () => {
+      const permissions = BigInt(interaction.member?.permissions ?? '0');
+      return (permissions & (DISCORD_ADMINISTRATOR | DISCORD_MANAGE_GUILD)) !== BigInt(0);
+    },
+  };
+}
+
+/**
+ * Pick up a live reply posted by an earlier invocation
+ *
+ * Partial answers are not shown, only the final one. On Discord the interaction
+ * token is valid for 15 minutes, so the reply has to be finished within that time.
+ *
+ * @param env - Worker bindings
+ * @param target - Where the live reply was posted
+ * @returns LiveReply
+ */
+export function resumeLiveReply(env: CloudflareBindings, target: LiveReplyTarget): LiveReply {
+  if (target.platform === 'discord') {
+    return {
+      update: () => {},
+      finish: createDiscordInteractionReply(target.applicationId, target.interactionToken),
+      target,
+    };
+  }
+
+  const live = resumeTelegramLiveMessage(
+    createTelegramClient(env),
+    target.chatId,
+    target.messageId,
+    target.threadId
+  );
+  return { update: () => {}, finish: live.finish, target };
+}
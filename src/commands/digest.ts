@@ -0,0 +1,69 @@
+import { ParsedCommand } from '../utils/command-helpers';
+import { deleteDigestSubscription, upsertDigestSubscription } from '../utils/digest-helpers';
+import { CommandContext } from './context';
+
+const DEFAULT_MIN_MESSAGES = 10;
+
+const USAGE = '❌ Invalid format. Please use: /digest daily|weekly [min_messages] or /digest off';
+
+/**
+ * Process the /digest command
+ * Subscribes the current chat or forum topic to an automatic daily or weekly summary.
+ * Registered as admin-only, see commands/index.ts
+ *
+ * @param ctx - Command context
+ * @param command - Parsed command
+ */
+export async function processDigestCommand(
+  ctx: CommandContext,
+  command: ParsedCommand
+): Promise<void> {
+  const { chatId, threadId } = ctx;
+  const timestamp = new Date().toISOString();
+
+  try {
+    console.log(
+      `[${timestamp}] Processing /digest command for chat ${chatId}${
+        threadId ? `, thread ${threadId}` : ''
+      }`
+    );
+
+    const [action, minArg] = command.args.map(arg => arg.toLowerCase());
+    const where = threadId ? 'this topic' : 'this group';
+
+    if (action === 'off') {
+      const removed = await deleteDigestSubscription(ctx.env.DB, chatId, threadId ?? '');
+      await ctx.reply(
+        removed ? `✅ Digests are turned off for ${where}.` : `ℹ️ There is no digest for ${where}.`
+      );
+      return;
+    }
+
+    const minMessages = minArg ? Number(minArg) : DEFAULT_MIN_MESSAGES;
+    if (
+      (action !== 'daily' && action !== 'weekly') ||
+      !Number.isInteger(minMessages) ||
+      minMessages < 1
+    ) {
+      await ctx.reply(USAGE);
+      return;
+    }
+
+    await upsertDigestSubscription(
+      ctx.env.DB,
+      chatId,
+      threadId ?? '',
+      action,
+      minMessages,
+      ctx.user?.id || 'Unknown ID'
+    );
+
+    console.log(`[${timestamp}] Subscribed chat ${chatId} to ${action} digests`);
+    await ctx.reply(
+      `✅ A ${action} digest will be posted in ${where} whenever it has at least ${minMessages} new messages.`
+    );
+  } catch (error) {
+    console.error(`[${timestamp}] Error processing digest command:`, error);
+    await ctx.reply('Sorry, an error occurred while updating the digest settings.');
+  }
+}
@@ -1,23 +1,39 @@
-import { Context } from 'hono';
-import { TelegramMessage } from '../types/telegram';
-import { sendTelegramMessage, sendTelegramChatAction } from '../utils/telegram-helpers';
+import { escapeHTML } from '../utils/render-helpers';
+import { commands, getCommandUsage, isCommandOnPlatform } from './index';
+import { CommandContext, CommandPlatform } from './context';
+
+/**
+ * Build the help message from the command registry
+ *
+ * @param platform - Only list commands offered on this platform
+ * @returns HTML help message
+ */
+export function buildHelpMessage(platform: CommandPlatform = 'telegram'): string {
+  const lines = commands
+    .filter(command => isCommandOnPlatform(command, platform))
+    .map(command => {
+      const notes: string[] = [];
+      if (command.chatTypes.length === 1 && command.chatTypes[0] === 'private') {
+        notes.push('private messages only');
+      }
+      if (command.adminOnly) {
+        notes.push('admins only');
+      }
+      const suffix = notes.length > 0 ? ` (${notes.join(', ')})` : '';
+      return `o ${escapeHTML(getCommandUsage(command))} - ${escapeHTML(command.description)}${suffix}`;
+    });
+
+  return `<b>🤖 Available Commands:</b>\n\n${lines.join('\n')}`;
+}
 
 /**
  * Process the /help command
  *
- * @param c - Hono context
- * @param message - Telegram message
- * @param botToken - Telegram bot token
+ * @param ctx - Command context
  */
-export async function processHelpCommand(
-  c: Context<{ Bindings: CloudflareBindings }>,
-  message: TelegramMessage,
-  botToken: string
-): Promise<void> {
-  const chatId = message.chat.id.toString();
+export async function processHelpCommand(ctx: CommandContext): Promise<void> {
+  const { chatId, threadId } = ctx;
   const timestamp = new Date().toISOString();
-  const threadId = message.message_thread_id?.toString();
-  const messageId = message.message_id;
 
   try {
     console.log(
@@ -26,31 +42,18 @@ export async function processHelpCommand(
       }`
     );
     console.log(`[${timestamp}] Attempting to send 'typing' action for /help...`);
-    await sendTelegramChatAction(botToken, chatId, 'typing', threadId);
+    await ctx.sendTyping();
     console.log(`[${timestamp}] 'typing' action sent for /help.`);
 
-    const helpMessage = `
-    <b>🤖 Available Commands:</b>
+    const helpMessage = buildHelpMessage(ctx.platform);
 
-o /help - Displays this help message.
-o /summary - Summarizes recent chat messages.
-o /ping - Checks if the bot is online.
-o /link &lt;code&gt; - Links your Telegram account (private messages only).
-    `;
-
-    await sendTelegramMessage(botToken, chatId, helpMessage, threadId, messageId);
+    await ctx.reply(helpMessage);
 
     console.log(
       `[${timestamp}] Sent help message to chat ${chatId}${threadId ? `, thread ${threadId}` : ''}`
     );
   } catch (error) {
     console.error(`[${timestamp}] Error processing help command:`, error);
-    await sendTelegramMessage(
-      botToken,
-      chatId,
-      'Sorry, an error occurred while processing your help request.',
-      threadId,
-      messageId
-    );
+    await ctx.reply('Sorry, an error occurred while processing your help request.');
   }
 }
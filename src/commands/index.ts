@@ -1,39 +1,281 @@
-import { Context } from 'hono';
-import { TelegramMessage } from '../types/telegram';
+import { formatDuration, ParsedCommand } from '../utils/command-helpers';
+import { escapeHTML } from '../utils/render-helpers';
+import { claimCommandUsage, CommandLimitHit, CommandLimits } from '../utils/rate-limit-helpers';
+import { ChatType, CommandContext, CommandPlatform } from './context';
 import { processPingCommand } from './ping';
 import { processHelpCommand } from './help';
 import { processSummaryCommand } from './summary';
 import { processLinkCommand } from './link';
+import { processUnlinkCommand } from './unlink';
+import { processWhoamiCommand } from './whoami';
+import { processLeaderboardCommand } from './leaderboard';
+import { processMyStatsCommand } from './mystats';
+import { processBlacklistCommand } from './blacklist';
+import { processDigestCommand } from './digest';
+import { processRetentionCommand } from './retention';
+import { processSearchCommand } from './search';
+import { processModelCommand } from './model';
+
+export type { ChatType, CommandContext, CommandPlatform } from './context';
+
+export interface CommandArgument {
+  name: string;
+  required?: boolean;
+}
 
 export interface Command {
   name: string;
-  process: (
-    c: Context<{ Bindings: CloudflareBindings }>,
-    message: TelegramMessage,
-    botToken: string
-  ) => Promise<void>;
-  isMatch: (text?: string) => boolean;
+  aliases?: string[];
+  description: string;
+  args?: CommandArgument[];
+  // Chat types the command may be used in
+  chatTypes: ChatType[];
+  // Platforms the command is offered on, Telegram only when omitted
+  platforms?: CommandPlatform[];
+  adminOnly?: boolean;
+  // Cooldowns and daily quota; chat admins are exempt
+  limits?: CommandLimits;
+  process: (ctx: CommandContext, command: ParsedCommand) => Promise<void>;
 }
 
 export const commands: Command[] = [
-  {
-    name: 'ping',
-    process: processPingCommand,
-    isMatch: text => text?.startsWith('/ping') ?? false,
-  },
   {
     name: 'help',
+    description: 'Displays this help message.',
+    chatTypes: ['supergroup', 'group', 'private'],
     process: processHelpCommand,
-    isMatch: text => text?.startsWith('/help') ?? false,
+  },
+  {
+    name: 'ping',
+    description: 'Checks if the bot is online.',
+    chatTypes: ['supergroup', 'group', 'guild'],
+    platforms: ['telegram', 'discord'],
+    process: processPingCommand,
   },
   {
     name: 'summary',
+    description:
+      'Summarizes recent chat messages, or the linked channel with "channel". Reply to a message to start there.',
+    args: [
+      { name: 'channel' },
+      { name: 'last=6h|today|week' },
+      { name: 'since <link>' },
+      { name: '@username' },
+      { name: 'prompt' },
+    ],
+    chatTypes: ['supergroup', 'guild'],
+    platforms: ['telegram', 'discord'],
+    limits: { userCooldown: 120, chatCooldown: 30, dailyQuota: 50 },
     process: processSummaryCommand,
-    isMatch: text => text?.startsWith('/summary') ?? false,
+  },
+  {
+    name: 'leaderboard',
+    aliases: ['top'],
+    description: 'Shows the most active members.',
+    args: [
+      { name: 'today|week|month|all' },
+      { name: 'messages|length' },
+      { name: 'global|linked' },
+    ],
+    chatTypes: ['supergroup', 'guild'],
+    platforms: ['telegram', 'discord'],
+    process: processLeaderboardCommand,
+  },
+  {
+    name: 'mystats',
+    aliases: ['stats'],
+    description: "Shows your activity stats, or another member's.",
+    args: [{ name: '@username' }, { name: 'linked' }],
+    chatTypes: ['supergroup', 'private'],
+    process: processMyStatsCommand,
+  },
+  {
+    name: 'search',
+    description: 'Searches archived messages, optionally filtered by sender or date.',
+    args: [{ name: 'query', required: true }, { name: 'from:@username' }, { name: 'since:date' }],
+    chatTypes: ['supergroup', 'guild'],
+    platforms: ['telegram', 'discord'],
+    process: processSearchCommand,
   },
   {
     name: 'link',
+    description: 'Links your account to khmercoder.com.',
+    args: [{ name: 'code', required: true }],
+    chatTypes: ['private'],
+    platforms: ['telegram', 'discord'],
     process: processLinkCommand,
-    isMatch: text => text?.startsWith('/link') ?? false,
+  },
+  {
+    name: 'unlink',
+    description: 'Unlinks your account from khmercoder.com.',
+    args: [{ name: 'confirm' }],
+    chatTypes: ['private'],
+    platforms: ['telegram', 'discord'],
+    process: processUnlinkCommand,
+  },
+  {
+    name: 'whoami',
+    description: 'Shows which khmercoder.com account you are linked to.',
+    chatTypes: ['private'],
+    platforms: ['telegram', 'discord'],
+    process: processWhoamiCommand,
+  },
+  {
+    name: 'blacklist',
+    description: 'Manages topics excluded from the archive.',
+    args: [{ name: 'add|remove|list', required: true }, { name: 'topic_id' }],
+    chatTypes: ['supergroup'],
+    adminOnly: true,
+    process: processBlacklistCommand,
+  },
+  {
+    name: 'digest',
+    description: 'Posts an automatic daily or weekly summary of this chat or topic.',
+    args: [{ name: 'daily|weekly|off', required: true }, { name: 'min_messages' }],
+    chatTypes: ['supergroup'],
+    adminOnly: true,
+    process: processDigestCommand,
+  },
+  {
+    name: 'retention',
+    description: 'Shows or sets how many days archived messages are kept.',
+    args: [{ name: 'days|off|default' }],
+    chatTypes: ['supergroup'],
+    adminOnly: true,
+    process: processRetentionCommand,
+  },
+  {
+    name: 'model',
+    description: 'Shows or sets the AI model used first for summaries in this chat.',
+    args: [{ name: 'name|default' }],
+    chatTypes: ['supergroup', 'guild'],
+    platforms: ['telegram', 'discord'],
+    adminOnly: true,
+    process: processModelCommand,
   },
 ];
+
+/**
+ * Check whether a command is offered on a platform
+ *
+ * @param command - Command definition
+ * @param platform - Platform to check
+ * @returns boolean
+ */
+export function isCommandOnPlatform(command: Command, platform: CommandPlatform): boolean {
+  return (command.platforms ?? ['telegram']).includes(platform);
+}
+
+/**
+ * Find a command by name or alias
+ *
+ * @param name - Command name without the leading slash
+ * @returns Command or undefined if there is no such command
+ */
+export function findCommand(name: string): Command | undefined {
+  return commands.find(command => command.name === name || command.aliases?.includes(name));
+}
+
+/**
+ * Describe how to call a command, e.g. `/link <code>`
+ *
+ * @param command - Command definition
+ * @returns Usage string (plain text)
+ */
+export function getCommandUsage(command: Command): string {
+  const args = (command.args ?? []).map(arg => (arg.required ? `<${arg.name}>` : `[${arg.name}]`));
+  return [`/${command.name}`, ...args].join(' ');
+}
+
+/**
+ * Explain which limit stopped a command and when it can be used again
+ *
+ * @param command - Command definition
+ * @param hit - Limit that was hit
+ * @returns Reply text (HTML)
+ */
+function describeLimitHit(command: Command, hit: CommandLimitHit): string {
+  const wait = formatDuration(hit.retryAt.getTime() - Date.now());
+  switch (hit.scope) {
+    case 'user':
+      return `⏳ You used /${command.name} a moment ago. You can use it again in ${wait}.`;
+    case 'chat':
+      return `⏳ /${command.name} was just used here. Please try again in ${wait}.`;
+    case 'quota':
+      return `⏳ This chat has used all ${command.limits?.dailyQuota} of today's /${command.name} requests. They reset at midnight UTC, in ${wait}.`;
+  }
+}
+
+/**
+ * Check platform, scope, permissions, arguments and limits, then run a command
+ *
+ * Commands in private chats run before the webhook responds; everywhere else
+ * they run in the background so counting isn't held up.
+ *
+ * @param ctx - Command context
+ * @param command - Command definition
+ * @param parsed - Parsed command text
+ */
+export async function dispatchCommand(
+  ctx: CommandContext,
+  command: Command,
+  parsed: ParsedCommand
+): Promise<void> {
+  if (!isCommandOnPlatform(command, ctx.platform)) {
+    await ctx.reply(`🔒 The /${command.name} command is not available here.`);
+    return;
+  }
+
+  if (!command.chatTypes.includes(ctx.chatType) && !ctx.env.DEV_MODE) {
+    // Only supergroup messages are counted and archived, so most group commands need one
+    if (ctx.chatType === 'group' && command.chatTypes.includes('supergroup')) {
+      await ctx.reply(
+        `🔒 The /${command.name} command is not available in basic groups, because the bot doesn't record their messages. It works once the group is upgraded to a supergroup.`
+      );
+      return;
+    }
+
+    const where = command.chatTypes.includes('private')
+      ? 'in private messages with the bot'
+      : ctx.platform === 'discord'
+        ? 'in servers'
+        : 'in groups';
+    await ctx.reply(`🔒 The /${command.name} command can only be used ${where}.`);
+    return;
+  }
+
+  if (command.adminOnly && !(await ctx.isAdmin())) {
+    await ctx.reply(`🔒 Only group administrators can use /${command.name}.`);
+    return;
+  }
+
+  const requiredCount = (command.args ?? []).filter(arg => arg.required).length;
+  if (parsed.args.length < requiredCount) {
+    await ctx.reply(`❌ Invalid format. Please use: ${escapeHTML(getCommandUsage(command))}`);
+    return;
+  }
+
+  // Admins skip the limits, and their calls don't count towards the chat's quota or cooldown
+  if (command.limits && ctx.user && !(await ctx.isAdmin())) {
+    const hit = await claimCommandUsage(
+      ctx.env.DB,
+      {
+        platform: ctx.platform,
+        chatId: ctx.chatId,
+        userId: ctx.user.id,
+        command: command.name,
+      },
+      command.limits
+    );
+    if (hit) {
+      await ctx.reply(describeLimitHit(command, hit));
+      return;
+    }
+  }
+
+  if (ctx.chatType === 'private') {
+    await command.process(ctx, parsed);
+  } else {
+    ctx.waitUntil(command.process(ctx, parsed));
+  }
+}
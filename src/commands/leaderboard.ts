@@ -0,0 +1,187 @@
+import { ParsedCommand } from '../utils/command-helpers';
+import { escapeHTML } from '../utils/render-helpers';
+import { CommandContext } from './context';
+import {
+  DateRange,
+  getLeaderboard,
+  getUserRank,
+  LeaderboardEntry,
+  LeaderboardMetric,
+  LeaderboardOptions,
+  resolvePeriod,
+} from '../utils/stats-helpers';
+
+const LEADERBOARD_SIZE = 10;
+const NAME_WIDTH = 16;
+
+const USAGE =
+  '❌ Invalid format. Please use: /leaderboard [today|week|month|all|YYYY-MM-DD..YYYY-MM-DD] [messages|length] [global|linked]';
+
+/**
+ * Parse the arguments of a /leaderboard command
+ *
+ * @param args - Command arguments
+ * @returns Parsed period, metric and scope, or null if an argument is not recognised
+ */
+function parseLeaderboardArgs(
+  args: string[]
+): { period: DateRange; metric: LeaderboardMetric; global: boolean; linked: boolean } | null {
+  let period = resolvePeriod('week') as DateRange;
+  let metric: LeaderboardMetric = 'messages';
+  let global = false;
+  let linked = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i].toLowerCase();
+
+    if (arg === 'messages' || arg === 'length') {
+      metric = arg;
+      continue;
+    }
+
+    // "global" switches from this chat to the cross-chat view
+    if (arg === 'global') {
+      global = true;
+      continue;
+    }
+
+    // "linked" counts every chat on every platform, merging accounts linked to one website user
+    if (arg === 'linked') {
+      linked = true;
+      continue;
+    }
+
+    // Allow "2025-01-01 2025-01-31" as well as "2025-01-01..2025-01-31"
+    const next = args[i + 1];
+    if (next && /^\d{4}-\d{2}-\d{2}$/.test(arg) && /^\d{4}-\d{2}-\d{2}$/.test(next)) {
+      const range = resolvePeriod(`${arg}..${next}`);
+      if (!range) return null;
+      period = range;
+      i++;
+      continue;
+    }
+
+    const resolved = resolvePeriod(arg);
+    if (!resolved) return null;
+    period = resolved;
+  }
+
+  return { period, metric, global, linked };
+}
+
+/**
+ * Render leaderboard entries as a monospaced table
+ *
+ * @param entries - Ranked leaderboard entries
+ * @param metric - Metric the entries are ranked by
+ * @param caller - Entry of the person who asked, marked in the table
+ * @returns HTML string
+ */
+function renderLeaderboardTable(
+  entries: LeaderboardEntry[],
+  metric: LeaderboardMetric,
+  caller: LeaderboardEntry | null
+): string {
+  const valueHeader = metric === 'messages' ? 'Msgs' : 'Chars';
+  const values = entries.map(entry =>
+    (metric === 'messages' ? entry.message_count : entry.message_length).toLocaleString('en-US')
+  );
+  const valueWidth = Math.max(valueHeader.length, ...values.map(value => value.length));
+
+  const lines = [`   #  ${'Name'.padEnd(NAME_WIDTH)} ${valueHeader.padStart(valueWidth)}`];
+
+  entries.forEach((entry, index) => {
+    const marker =
+      entry.platform === caller?.platform && entry.user_id === caller.user_id ? '➤' : ' ';
+    const name =
+      entry.display_name.length > NAME_WIDTH
+        ? `${entry.display_name.slice(0, NAME_WIDTH - 1)}…`
+        : entry.display_name;
+    lines.push(
+      `${marker}${String(entry.rank).padStart(3)}  ${name.padEnd(NAME_WIDTH)} ${values[index].padStart(valueWidth)}`
+    );
+  });
+
+  return `<pre>${escapeHTML(lines.join('\n'))}</pre>`;
+}
+
+/**
+ * Process the /leaderboard command
+ *
+ * @param ctx - Command context
+ * @param command - Parsed command
+ */
+export async function processLeaderboardCommand(
+  ctx: CommandContext,
+  command: ParsedCommand
+): Promise<void> {
+  const { chatId, threadId } = ctx;
+  const timestamp = new Date().toISOString();
+
+  try {
+    console.log(
+      `[${timestamp}] Processing /leaderboard command for chat ${chatId}${
+        threadId ? `, thread ${threadId}` : ''
+      }`
+    );
+
+    const parsed = parseLeaderboardArgs(command.args);
+    if (!parsed) {
+      await ctx.reply(USAGE);
+      return;
+    }
+
+    await ctx.sendTyping();
+
+    const { period, metric, global, linked } = parsed;
+    const options: LeaderboardOptions = {
+      platform: linked ? undefined : ctx.platform,
+      chatId: global || linked ? undefined : chatId,
+      startDate: period.startDate,
+      endDate: period.endDate,
+      metric,
+      mergeLinked: linked,
+      limit: LEADERBOARD_SIZE,
+    };
+
+    const callerId = ctx.user?.id;
+    const [entries, own] = await Promise.all([
+      getLeaderboard(ctx.env.DB, options),
+      callerId ? getUserRank(ctx.env.DB, ctx.platform, callerId, options) : null,
+    ]);
+    const metricLabel = metric === 'messages' ? 'messages' : 'characters';
+    const scope = linked ? 'Cross-platform ' : global ? 'Global ' : '';
+    const header = `<b>🏆 ${scope}Leaderboard</b> — <i>${escapeHTML(
+      period.label
+    )}</i>, by ${metricLabel}`;
+
+    if (entries.length === 0) {
+      await ctx.reply(`${header}\n\nNo messages found for this period.`);
+      return;
+    }
+
+    let text = `${header}\n\n${renderLeaderboardTable(entries, metric, own)}`;
+
+    // Show the caller's own rank when they are outside the top of the table
+    const isListed = entries.some(
+      entry => entry.platform === own?.platform && entry.user_id === own.user_id
+    );
+    if (callerId && !isListed) {
+      if (own) {
+        const value = metric === 'messages' ? own.message_count : own.message_length;
+        text += `\n➤ Your rank: <b>#${own.rank}</b> with ${value.toLocaleString('en-US')} ${metricLabel}`;
+      } else {
+        text += `\n➤ You have no messages in this period.`;
+      }
+    }
+
+    await ctx.reply(text);
+
+    console.log(
+      `[${timestamp}] Sent leaderboard to chat ${chatId}${threadId ? `, thread ${threadId}` : ''}`
+    );
+  } catch (error) {
+    console.error(`[${timestamp}] Error processing leaderboard command:`, error);
+    await ctx.reply('Sorry, an error occurred while generating the leaderboard.');
+  }
+}
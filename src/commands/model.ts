@@ -0,0 +1,73 @@
+import { ParsedCommand } from '../utils/command-helpers';
+import { getChatSettings, setChatSummaryModel } from '../utils/settings-helpers';
+import { AI_MODELS, createAiTextClient, isAiModelName } from '../utils/ai-client';
+import { CommandContext } from './context';
+
+/**
+ * Describe the models a chat's summaries are generated with
+ *
+ * @param ctx - Command context
+ * @param model - The chat's chosen model, null for the default chain
+ * @returns Description (HTML)
+ */
+function describeModelChain(ctx: CommandContext, model: string | null): string {
+  const [first, ...fallbacks] = createAiTextClient(ctx.env, model).models;
+  return `Summaries in this chat use <code>${first}</code>${
+    fallbacks.length > 0
+      ? `, falling back to ${fallbacks.map(name => `<code>${name}</code>`).join(', then ')}`
+      : ''
+  }${model ? '' : ' (the default)'}.`;
+}
+
+/**
+ * Process the /model command
+ * Shows or changes the AI model tried first for this chat's summaries and digests.
+ * Registered as admin-only, see commands/index.ts
+ *
+ * @param ctx - Command context
+ * @param command - Parsed command
+ */
+export async function processModelCommand(
+  ctx: CommandContext,
+  command: ParsedCommand
+): Promise<void> {
+  const { chatId } = ctx;
+  const timestamp = new Date().toISOString();
+
+  try {
+    console.log(`[${timestamp}] Processing /model command for ${ctx.platform} chat ${chatId}`);
+
+    const arg = command.args[0]?.toLowerCase();
+
+    if (!arg) {
+      const settings = await getChatSettings(ctx.env.DB, chatId);
+      const available = Object.entries(AI_MODELS).map(
+        ([name, config]) => `• <code>${name}</code>: ${config.description}`
+      );
+      await ctx.reply(
+        `🤖 ${describeModelChain(ctx, settings?.summary_model ?? null)}\n\nAvailable models:\n${available.join('\n')}`
+      );
+      return;
+    }
+
+    let model: string | null;
+    if (arg === 'default') {
+      model = null;
+    } else if (isAiModelName(arg)) {
+      model = arg;
+    } else {
+      await ctx.reply(
+        `❌ Unknown model. Choose one of: ${Object.keys(AI_MODELS).join(', ')}, or "default".`
+      );
+      return;
+    }
+
+    await setChatSummaryModel(ctx.env.DB, chatId, model);
+    console.log(`[${timestamp}] Set summary model for chat ${chatId} to ${model ?? 'default'}`);
+
+    await ctx.reply(`✅ ${describeModelChain(ctx, model)}`);
+  } catch (error) {
+    console.error(`[${timestamp}] Error processing model command:`, error);
+    await ctx.reply('Sorry, an error occurred while updating the summary model.');
+  }
+}
@@ -0,0 +1,152 @@
+import { ParsedCommand } from '../utils/command-helpers';
+import { escapeHTML } from '../utils/render-helpers';
+import { findUserByUsername } from '../utils/db-helpers';
+import {
+  calculateStreaks,
+  getRecentDailySeries,
+  getUserActivityPattern,
+  getUserDailyCounts,
+  getUserRank,
+  getUserTotals,
+  renderSparkline,
+  UserActivityOptions,
+} from '../utils/stats-helpers';
+import { CommandContext, CommandUser } from './context';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const SPARKLINE_DAYS = 30;
+
+/**
+ * Pick the index of the largest bucket
+ *
+ * @param buckets - Message counts per bucket
+ * @returns Index of the busiest bucket, or -1 if every bucket is empty
+ */
+function busiestIndex(buckets: number[]): number {
+  const max = Math.max(...buckets);
+  return max > 0 ? buckets.indexOf(max) : -1;
+}
+
+/**
+ * Work out whose stats to show: a replied-to member, an @username, or the caller
+ *
+ * @param ctx - Command context
+ * @param mention - Optional @username argument
+ * @returns Target user, or null if an @username could not be found
+ */
+async function resolveTargetUser(
+  ctx: CommandContext,
+  mention?: string
+): Promise<CommandUser | null> {
+  if (mention && ctx.chatType !== 'private') {
+    const user = await findUserByUsername(ctx.env.DB, ctx.platform, mention);
+    return user ? { id: user.user_id, displayName: user.display_name } : null;
+  }
+
+  return ctx.replyTo?.user ?? ctx.user;
+}
+
+/**
+ * Process the /mystats command
+ *
+ * @param ctx - Command context
+ * @param command - Parsed command
+ */
+export async function processMyStatsCommand(
+  ctx: CommandContext,
+  command: ParsedCommand
+): Promise<void> {
+  const { chatId, threadId } = ctx;
+  const timestamp = new Date().toISOString();
+
+  try {
+    console.log(
+      `[${timestamp}] Processing /mystats command for chat ${chatId}${
+        threadId ? `, thread ${threadId}` : ''
+      }`
+    );
+    await ctx.sendTyping();
+
+    // "linked" adds the activity of every account linked to the same website user
+    const linked = command.args.some(arg => arg.toLowerCase() === 'linked');
+    const mention = command.args.find(arg => arg.toLowerCase() !== 'linked');
+
+    const target = await resolveTargetUser(ctx, mention);
+    if (!target) {
+      await ctx.reply(
+        "❌ I don't know that member yet. They need to send a message in the group first."
+      );
+      return;
+    }
+
+    // Stats are scoped to the current group; in private chats, or across linked
+    // accounts, show activity across all chats
+    const scopedChatId = ctx.chatType === 'private' || linked ? undefined : chatId;
+    const options: UserActivityOptions = {
+      platform: ctx.platform,
+      userId: target.id,
+      chatId: scopedChatId,
+      mergeLinked: linked,
+    };
+
+    const [totals, dailyCounts, pattern, rank] = await Promise.all([
+      getUserTotals(ctx.env.DB, options),
+      getUserDailyCounts(ctx.env.DB, options),
+      getUserActivityPattern(ctx.env.DB, options),
+      getUserRank(ctx.env.DB, ctx.platform, target.id, {
+        platform: linked ? undefined : ctx.platform,
+        chatId: scopedChatId,
+        metric: 'messages',
+        mergeLinked: linked,
+      }),
+    ]);
+
+    const name = escapeHTML(target.displayName);
+
+    if (totals.message_count === 0) {
+      await ctx.reply(`<b>📊 Stats for ${name}</b>\n\nNo messages recorded yet.`);
+      return;
+    }
+
+    const averageLength = Math.round(totals.message_length / totals.message_count);
+    const streaks = calculateStreaks(dailyCounts.map(day => day.chat_date));
+    const sparkline = renderSparkline(getRecentDailySeries(dailyCounts, SPARKLINE_DAYS));
+    const busiestDay = busiestIndex(pattern.byWeekday);
+    const busiestHour = busiestIndex(pattern.byHour);
+    const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+    const lines = [
+      `<b>📊 Stats for ${name}</b>${
+        linked ? ' <i>(all linked accounts)</i>' : scopedChatId ? '' : ' <i>(all chats)</i>'
+      }`,
+      '',
+      `• <i>Messages:</i> ${totals.message_count.toLocaleString('en-US')}`,
+      `• <i>Characters:</i> ${totals.message_length.toLocaleString('en-US')}`,
+      `• <i>Average length:</i> ${plural(averageLength, 'char')}`,
+      `• <i>Most active day:</i> ${busiestDay >= 0 ? WEEKDAYS[busiestDay] : 'n/a'}`,
+      `• <i>Most active hour:</i> ${
+        busiestHour >= 0
+          ? `${String(busiestHour).padStart(2, '0')}:00–${String((busiestHour + 1) % 24).padStart(2, '0')}:00 UTC`
+          : 'n/a'
+      }`,
+      `• <i>Current streak:</i> ${plural(streaks.current, 'day')}`,
+      `• <i>Longest streak:</i> ${plural(streaks.longest, 'day')}`,
+      `• <i>Rank${scopedChatId ? ' in this chat' : ''}:</i> ${rank ? `#${rank.rank}` : 'n/a'}`,
+      `• <i>Active since:</i> ${totals.first_date}`,
+      '',
+      `<b>Last ${SPARKLINE_DAYS} days:</b>`,
+      `<code>${sparkline}</code>`,
+    ];
+
+    await ctx.reply(lines.join('\n'));
+
+    console.log(
+      `[${timestamp}] Sent stats for user ${target.id} to chat ${chatId}${
+        threadId ? `, thread ${threadId}` : ''
+      }`
+    );
+  } catch (error) {
+    console.error(`[${timestamp}] Error processing mystats command:`, error);
+    await ctx.reply('Sorry, an error occurred while fetching your stats.');
+  }
+}
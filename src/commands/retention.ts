@@ -0,0 +1,75 @@
+import { ParsedCommand } from '../utils/command-helpers';
+import { getChatSettings, setChatRetentionDays } from '../utils/settings-helpers';
+import { CommandContext } from './context';
+
+const USAGE = '❌ Invalid format. Please use: /retention [days|off|default]';
+
+/**
+ * Describe a retention period for replies
+ *
+ * @param days - Retention in days, 0 for forever, null when unset
+ * @returns Human readable description
+ */
+function describeRetention(days: number | null): string {
+  if (days === null) return 'not set';
+  if (days === 0) return 'kept forever';
+  return `kept for ${days} day${days === 1 ? '' : 's'}`;
+}
+
+/**
+ * Process the /retention command
+ * Shows or changes how long this chat's archived messages are kept. Older messages
+ * are pruned by the daily cron job, and their counts are kept as aggregates.
+ * Registered as admin-only, see commands/index.ts
+ *
+ * @param ctx - Command context
+ * @param command - Parsed command
+ */
+export async function processRetentionCommand(
+  ctx: CommandContext,
+  command: ParsedCommand
+): Promise<void> {
+  const { chatId } = ctx;
+  const timestamp = new Date().toISOString();
+
+  try {
+    console.log(`[${timestamp}] Processing /retention command for chat ${chatId}`);
+
+    const defaultDays = ctx.env.DEFAULT_RETENTION_DAYS ? Number(ctx.env.DEFAULT_RETENTION_DAYS) : 0;
+    const arg = command.args[0]?.toLowerCase();
+
+    if (!arg) {
+      const settings = await getChatSettings(ctx.env.DB, chatId);
+      const days = settings?.retention_days ?? null;
+      const text =
+        days === null
+          ? `🗄 Archived messages use the default: ${describeRetention(defaultDays)}.`
+          : `🗄 Archived messages are ${describeRetention(days)}.`;
+      await ctx.reply(text);
+      return;
+    }
+
+    let retentionDays: number | null;
+    if (arg === 'off') {
+      retentionDays = 0;
+    } else if (arg === 'default') {
+      retentionDays = null;
+    } else {
+      retentionDays = Number(arg);
+      if (!Number.isInteger(retentionDays) || retentionDays < 1) {
+        await ctx.reply(USAGE);
+        return;
+      }
+    }
+
+    await setChatRetentionDays(ctx.env.DB, chatId, retentionDays);
+    console.log(`[${timestamp}] Set retention for chat ${chatId} to ${retentionDays}`);
+
+    await ctx.reply(
+      `✅ Archived messages are now ${describeRetention(retentionDays ?? defaultDays)}.`
+    );
+  } catch (error) {
+    console.error(`[${timestamp}] Error processing retention command:`, error);
+    await ctx.reply('Sorry, an error occurred while updating the retention policy.');
+  }
+}
@@ -0,0 +1,156 @@
+import { ParsedCommand } from '../utils/command-helpers';
+import { escapeHTML } from '../utils/render-helpers';
+import { findUserByUsername } from '../utils/db-helpers';
+import { isValidChatDate } from '../utils/stats-helpers';
+import {
+  buildDiscordMessageLink,
+  buildTelegramMessageLink,
+  MATCH_END,
+  MATCH_START,
+  searchMessages,
+  SearchOptions,
+} from '../utils/search-helpers';
+import { CommandContext } from './context';
+
+const MAX_RESULTS = 5;
+
+const USAGE =
+  '❌ Invalid format. Please use: /search &lt;query&gt; [from:@username|from:name] [since:YYYY-MM-DD] [until:YYYY-MM-DD]';
+
+/**
+ * Split command arguments into search terms and filters
+ *
+ * @param ctx - Command context
+ * @param args - Command arguments
+ * @returns Search filters and terms (chatId is filled in by the caller), or an error message
+ */
+async function parseSearchArguments(
+  ctx: CommandContext,
+  args: string[]
+): Promise<Omit<SearchOptions, 'chatId'> | { error: string }> {
+  const options: Omit<SearchOptions, 'chatId'> = { terms: [], limit: MAX_RESULTS };
+
+  for (const arg of args) {
+    const filter = /^(from|since|until):(.+)$/i.exec(arg);
+    if (!filter) {
+      options.terms.push(arg);
+      continue;
+    }
+
+    const [, key, value] = filter;
+    switch (key.toLowerCase()) {
+      case 'from':
+        if (value.startsWith('@')) {
+          const user = await findUserByUsername(ctx.env.DB, ctx.platform, value);
+          if (!user) {
+            return { error: `❌ I don't know ${escapeHTML(value)} yet.` };
+          }
+          options.senderId = user.user_id;
+        } else {
+          options.senderName = value;
+        }
+        break;
+      case 'since':
+        if (!isValidChatDate(value)) {
+          return { error: USAGE };
+        }
+        options.since = `${value}T00:00:00.000Z`;
+        break;
+      case 'until': {
+        if (!isValidChatDate(value)) {
+          return { error: USAGE };
+        }
+        // The until date is inclusive, so stop at the start of the following day
+        const end = new Date(`${value}T00:00:00Z`);
+        end.setUTCDate(end.getUTCDate() + 1);
+        options.until = end.toISOString();
+        break;
+      }
+    }
+  }
+
+  if (options.terms.length === 0) {
+    return { error: USAGE };
+  }
+
+  return options;
+}
+
+/**
+ * Render a snippet with the matched terms in bold
+ *
+ * @param snippet - Snippet from the search index, with match markers
+ * @returns HTML string
+ */
+function formatSnippet(snippet: string): string {
+  return escapeHTML(snippet.replace(/\s+/g, ' '))
+    .split(MATCH_START)
+    .join('<b>')
+    .split(MATCH_END)
+    .join('</b>');
+}
+
+/**
+ * Process the /search command
+ * Searches the chat's archived messages and replies with the best matches.
+ *
+ * @param ctx - Command context
+ * @param command - Parsed command
+ */
+export async function processSearchCommand(
+  ctx: CommandContext,
+  command: ParsedCommand
+): Promise<void> {
+  const { chatId, threadId } = ctx;
+  const timestamp = new Date().toISOString();
+
+  try {
+    console.log(
+      `[${timestamp}] Processing /search command for chat ${chatId}${
+        threadId ? `, thread ${threadId}` : ''
+      }`
+    );
+
+    const parsed = await parseSearchArguments(ctx, command.args);
+    if ('error' in parsed) {
+      await ctx.reply(parsed.error);
+      return;
+    }
+
+    await ctx.sendTyping();
+
+    const results = await searchMessages(ctx.env.DB, ctx.platform, { ...parsed, chatId });
+    const query = escapeHTML(parsed.terms.join(' '));
+
+    if (results.length === 0) {
+      await ctx.reply(`🔍 No messages found for <b>${query}</b>.`);
+      return;
+    }
+
+    const lines = [`<b>🔍 Results for ${query}</b>`];
+    results.forEach((result, index) => {
+      const link =
+        ctx.platform === 'discord'
+          ? buildDiscordMessageLink(result.guild_id, chatId, result.message_id)
+          : buildTelegramMessageLink(chatId, result.message_id, result.message_thread_id);
+      const sender = escapeHTML(result.sender_name || 'Unknown User');
+      const date = result.message_date.slice(0, 10);
+      lines.push(
+        '',
+        `${index + 1}. <i>${sender}</i> · ${link ? `<a href="${link}">${date}</a>` : date}`,
+        formatSnippet(result.snippet)
+      );
+    });
+
+    await ctx.reply(lines.join('\n'));
+
+    console.log(
+      `[${timestamp}] Sent ${results.length} search results to chat ${chatId}${
+        threadId ? `, thread ${threadId}` : ''
+      }`
+    );
+  } catch (error) {
+    console.error(`[${timestamp}] Error processing search command:`, error);
+    await ctx.reply('Sorry, an error occurred while searching messages.');
+  }
+}
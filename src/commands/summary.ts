@@ -1,361 +1,862 @@
-import { Context } from 'hono';
-import { TelegramMessage } from '../types/telegram';
+import { formatDuration, ParsedCommand } from '../utils/command-helpers';
+import { fetchRecentMessages, getTelegramChat } from '../utils/telegram-helpers';
+import { escapeHTML, markdownToTelegramHTML, renderTelegramHTML } from '../utils/render-helpers';
+import { findUserByUsername, getUser } from '../utils/db-helpers';
+import { ParsedMessageLink, parseMessageLink } from '../utils/search-helpers';
+import { fetchRecentDiscordMessages } from '../utils/discord-helpers';
 import {
-  fetchRecentMessages,
-  sendTelegramMessage,
-  sendTelegramChatAction,
-} from '../utils/telegram-helpers';
+  getCachedSummary,
+  normalizeSummaryPrompt,
+  saveCachedSummary,
+  SUMMARY_CACHE_MAX_AGE_MS,
+} from '../utils/summary-cache-helpers';
+import {
+  AiModelName,
+  AiTextClient,
+  createAiTextClient,
+  REQUEST_AI_DEADLINE_MS,
+} from '../utils/ai-client';
+import { getChatSettings } from '../utils/settings-helpers';
+import {
+  CommandContext,
+  CommandPlatform,
+  LiveReply,
+  LiveReplyTarget,
+  resumeLiveReply,
+} from './context';
+
+// Maximum number of messages read for a summary of the latest messages
+export const SUMMARY_MESSAGE_LIMIT = 200;
+
+// Maximum number of messages read for an explicit window such as `week` or `since <message link>`.
+// Histories that don't fit in one prompt are summarized in chunks by the summary queue.
+export const WINDOW_SUMMARY_MESSAGE_LIMIT = 2000;
+
+const DURATION_UNITS_MS: Record<string, number> = { m: 60000, h: 3600000, d: 86400000 };
+const WINDOW_USAGE =
+  '❌ Invalid time window. Please use last=&lt;number&gt;m|h|d (e.g. last=6h), last=today or last=week.';
+
+interface SummaryArguments {
+  // Summarize the channel linked to the discussion group
+  isChannelSummary: boolean;
+  // Inclusive ISO timestamp
+  since?: string;
+  // Message to start from, checked against the chat by the caller
+  messageLink?: ParsedMessageLink;
+  sender?: { id: string; name: string };
+  // Describes the chosen scope in the heading (HTML), e.g. "last 6 hours"
+  scope: string[];
+  // Free-form request for the model
+  prompt: string;
+}
+
 /**
- * Convert common Markdown formatting to HTML for Telegram
- * The reason : sometime AI will send markdown formatting and we need to convert it to HTML to allow it to be displayed correctly.
+ * A summary of an explicit window that is too long to generate during the webhook request
  *
- * @param text - Text with potential Markdown formatting
- * @returns Text with HTML formatting
+ * Sent to SUMMARY_QUEUE and run by runSummaryJob.
  */
-function convertMarkdownToHTML(text: string): string {
-  try {
-    // Convert **bold** and __bold__ to <b>bold</b>
-    text = text.replace(/\*\*(.*?)\*\*/g, '<b>$1</b>');
-    text = text.replace(/__(.*?)__/g, '<b>$1</b>');
+export interface SummaryJob {
+  platform: CommandPlatform;
+  // Chat the command was sent in, whose settings choose the model
+  chatId: string;
+  // Chat and topic being summarized
+  sourceChatId: string;
+  sourceThreadId?: string;
+  since?: string;
+  fromMessageId?: string;
+  senderId?: string;
+  // Heading of the reply (HTML)
+  heading: string;
+  prompt: string;
+  // Placeholder to replace with the summary
+  reply: LiveReplyTarget;
+}
 
-    // Convert *italic* and _italic_ to <i>italic</i>
-    text = text.replace(/\*(.*?)\*/g, '<i>$1</i>');
-    text = text.replace(/_(.*?)_/g, '<i>$1</i>');
+/**
+ * Parse the value of a `last=` option
+ *
+ * @param value - A duration such as `6h`, `30m` or `2d`, `today` or `week`
+ * @returns Start of the window and its description, or null if the value isn't a window
+ */
+function parseSummaryWindow(value: string): { since: string; scope: string } | null {
+  const duration = /^([1-9]\d{0,2})([mhd])$/i.exec(value);
+  if (duration) {
+    const ms = Number(duration[1]) * DURATION_UNITS_MS[duration[2].toLowerCase()];
+    return { since: new Date(Date.now() - ms).toISOString(), scope: `last ${formatDuration(ms)}` };
+  }
 
-    // Convert `code` to <code>code</code>
-    text = text.replace(/`(.*?)`/g, '<code>$1</code>');
+  switch (value.toLowerCase()) {
+    case 'week':
+      return {
+        since: new Date(Date.now() - 7 * DURATION_UNITS_MS.d).toISOString(),
+        scope: 'last 7 days',
+      };
+    case 'today': {
+      const now = new Date();
+      return {
+        since: new Date(
+          Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+        ).toISOString(),
+        scope: 'today (UTC)',
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Split /summary arguments into leading options and the prompt
+ *
+ * Options come before the prompt, in any order: `channel`, a time window such as
+ * `last=6h`, `last=today` or `last=week`, `since <message link>` and `@username`. The
+ * first word that isn't an option starts the prompt, so a prompt such as "3d printing"
+ * is kept whole.
+ *
+ * @param ctx - Command context
+ * @param argsText - Everything after /summary
+ * @returns SummaryArguments, or an error message
+ */
+async function parseSummaryArguments(
+  ctx: CommandContext,
+  argsText: string
+): Promise<SummaryArguments | { error: string }> {
+  const args: SummaryArguments = { isChannelSummary: false, scope: [], prompt: '' };
+  let rest = argsText.trim();
+
+  for (;;) {
+    const match = /^(\S+)(?:\s+|$)/.exec(rest);
+    if (!match) {
+      break;
+    }
 
-    // Convert ```code blocks``` to <pre>code</pre>
-    text = text.replace(/```([\s\S]*?)```/g, '<pre>$1</pre>');
+    const token = match[1];
+    let consumed = match[0].length;
+    const lastOption = /^last=(.*)$/i.exec(token);
+    const mention = /^<@!?(\d+)>$/.exec(token);
+
+    if (token.toLowerCase() === 'channel' && !args.isChannelSummary) {
+      args.isChannelSummary = true;
+    } else if (lastOption && !args.since) {
+      const parsed = parseSummaryWindow(lastOption[1]);
+      if (!parsed) {
+        return { error: WINDOW_USAGE };
+      }
+      args.since = parsed.since;
+      args.scope.push(parsed.scope);
+    } else if (token.toLowerCase() === 'since' && !args.messageLink) {
+      const next = /^(\S+)(?:\s+|$)/.exec(rest.slice(consumed));
+      const link = next ? parseMessageLink(next[1]) : null;
+      if (!next || !link) {
+        // "since" followed by anything but a link is part of the prompt
+        if (next && /^(https?:\/\/|t\.me\/|discord(app)?\.com\/)/i.test(next[1])) {
+          return { error: '❌ That is not a valid message link.' };
+        }
+        break;
+      }
+      args.messageLink = link;
+      args.scope.push('since the linked message');
+      consumed += next[0].length;
+    } else if ((token.startsWith('@') && token.length > 1) || mention) {
+      if (args.sender) {
+        break;
+      }
+      if (mention) {
+        const user = await getUser(ctx.env.DB, ctx.platform, mention[1]);
+        args.sender = { id: mention[1], name: user?.display_name || mention[1] };
+      } else {
+        const user = await findUserByUsername(ctx.env.DB, ctx.platform, token);
+        if (!user) {
+          return { error: `❌ I don't know ${escapeHTML(token)} yet.` };
+        }
+        args.sender = { id: user.user_id, name: user.display_name };
+      }
+      args.scope.push(`from ${escapeHTML(args.sender.name)}`);
+    } else {
+      break;
+    }
 
-    // Convert ~~strikethrough~~ to <s>strikethrough</s>
-    text = text.replace(/~~(.*?)~~/g, '<s>$1</s>');
+    rest = rest.slice(consumed);
+  }
 
-    return text;
-  } catch (error) {
-    console.error('Error converting Markdown to HTML:', error);
-    return text;
+  args.prompt = rest.trim();
+  // A bare window used to be an option; rather than summarize with "6h" as the prompt, point to last=
+  if (parseSummaryWindow(args.prompt)) {
+    return { error: `❌ To summarize a time window, use last=${escapeHTML(args.prompt)}.` };
   }
+  return args;
+}
+
+/**
+ * Check that a message link points into the chat being summarized
+ *
+ * @param ctx - Command context
+ * @param link - Parsed message link
+ * @param chatId - Telegram chat ID or Discord channel ID being summarized
+ * @returns Promise<boolean>
+ */
+async function isLinkToChat(
+  ctx: CommandContext,
+  link: ParsedMessageLink,
+  chatId: string
+): Promise<boolean> {
+  if (link.platform !== ctx.platform) {
+    return false;
+  }
+  if (link.chatId) {
+    return link.chatId === chatId;
+  }
+
+  // Public t.me links name the chat by username instead of ID
+  const chat =
+    chatId === ctx.chatId
+      ? ctx.telegram?.message.chat
+      : ctx.telegram
+        ? await getTelegramChat(ctx.telegram.client, chatId)
+        : null;
+  return Boolean(
+    chat?.username && chat.username.toLowerCase() === link.chatUsername?.toLowerCase()
+  );
+}
+
+// Rough token budget for the messages in one prompt, leaving room in the model's
+// context for the instructions and the answer
+const CHUNK_TOKEN_BUDGET = 6000;
+
+// Chunks summarized at the same time, to stay within the AI binding's concurrency limits
+const CHUNK_CONCURRENCY = 4;
+
+type SummaryMessage = {
+  message_text: string;
+  sender_name: string;
+  message_date: string;
+};
+
+const SUMMARY_SYSTEM_PROMPT = `
+      You are Khmercoders assistant. Your main task is to provide brief 50 - 100 words, easy-to-read summaries of chat history.
+      
+      ---
+      Format Guidelines
+
+      When you respond, use these HTML tags for formatting:
+      - Use <b>text</b> for bold formatting (important topics, names)
+      - Use <i>text</i> for italic formatting (emphasis, side notes)
+      - Use <code>text</code> for inline code, commands, or technical terms
+      - Use <pre>text</pre> for code blocks (if needed)
+      - Use <tg-spoiler>text</tg-spoiler> for spoilers or sensitive content
+      - Use <u>text</u> for underlined text (sparingly)
+      
+      Example: "<b>Main Topics:</b> The discussion covered <i>project updates</i> and <code>/deploy</code> commands."
+      
+      IMPORTANT: Content will be automatically sanitized for security, so use HTML tags freely.
+      ---
+
+      ---
+      Custom Query Handling:
+
+      If the user provides a specific query or request after /summary, focus your summary on that aspect while still providing context.
+      
+      Examples:
+      - "/summary focus on technical discussions" → Focus on technical topics
+      - "/summary what decisions were made?" → Focus on decisions and conclusions
+      - "/summary who participated most?" → Focus on participant activity
+      - "/summary any issues mentioned?" → Focus on problems and issues
+      
+      If no specific query is provided, give a general balanced summary.
+      ---
+
+      ---
+      Your Restrictions:
+
+      Summaries Only: Your primary purpose is to summarize chat conversations. Make sure summaries are short and concise for quick reading.
+
+      "Who are you?" Exception: If someone asks "Who are you?", you can briefly state that you are the Khmercoders Assistant.
+
+      No Other Topics: Do not answer any other questions or engage in conversations outside of summarizing chats or stating your identity. Politely decline if asked to do anything else.
+      ---
+      `;
+
+// How messages are described to the model, e.g. "12 Discord messages"
+const PLATFORM_NAMES: Record<CommandPlatform, string> = {
+  telegram: 'Telegram',
+  discord: 'Discord',
+};
+
+const CHUNK_SYSTEM_PROMPT = `
+      You are Khmercoders assistant. You are given one part of a longer chat history, which is summarized part by part.
+
+      Write short plain-text notes, up to 150 words, on the topics discussed, decisions made, open questions and who was involved.
+      Do not add an introduction or a conclusion, and do not answer questions asked in the chat.
+      `;
+
+/**
+ * Estimate how many tokens a text takes up in the model's context
+ *
+ * English averages about four characters per token, but Khmer and other
+ * non-Latin scripts take roughly one token per character, so those are
+ * counted one for one.
+ *
+ * @param text - Text to measure
+ * @returns Approximate token count
+ */
+function estimateTokens(text: string): number {
+  const nonAscii = text.replace(/[\x00-\x7f]/g, '').length;
+  return Math.ceil((text.length - nonAscii) / 4) + nonAscii;
+}
+
+/**
+ * Split items into consecutive chunks that each fit in a token budget
+ *
+ * An item larger than the budget gets a chunk of its own.
+ *
+ * @param items - Items in order
+ * @param toText - Text of an item as it appears in the prompt
+ * @param budget - Token budget per chunk
+ * @returns Array of chunks
+ */
+function splitIntoChunks<T>(items: T[], toText: (item: T) => string, budget: number): T[][] {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let used = 0;
+
+  for (const item of items) {
+    const tokens = estimateTokens(toText(item)) + 1;
+    if (current.length > 0 && used + tokens > budget) {
+      chunks.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(item);
+    used += tokens;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Run an async function over items with limited concurrency, keeping their order
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of calls in flight
+ * @param fn - Function to run for each item
+ * @returns Promise<R[]> - Results in the order of the items
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
 }
+
+/**
+ * Format a message date for the model - convert ISO date to more readable format
+ *
+ * @param isoDate - ISO timestamp
+ * @returns Date such as "Oct 19, 09:30 AM"
+ */
+function formatMessageDate(isoDate: string): string {
+  return new Date(isoDate).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Format a message as a line of conversation history
+ *
+ * @param msg - Chat message
+ * @returns Line of text
+ */
+function formatMessageLine(msg: SummaryMessage): string {
+  return `[${formatMessageDate(msg.message_date)}] ${msg.sender_name}: ${msg.message_text}`;
+}
+
+/**
+ * Describe a chunk whose notes could not be generated, so the merged summary can still mention it
+ *
+ * @param chunk - Messages in the chunk, oldest first
+ * @returns Plain-text notes
+ */
+function describeChunk(chunk: SummaryMessage[]): string {
+  const participants = [...new Set(chunk.map(msg => msg.sender_name))];
+  const first = formatMessageDate(chunk[0].message_date);
+  const last = formatMessageDate(chunk[chunk.length - 1].message_date);
+  return `(No notes available: ${chunk.length} messages from ${participants.join(', ')} between ${first} and ${last}.)`;
+}
+
+/**
+ * Build the request for the final summary
+ *
+ * @param description - What the body contains, e.g. "12 Telegram messages"
+ * @param body - Conversation history or notes
+ * @param userPrompt - Optional custom request given after /summary
+ * @param previousSummary - Summary of the messages before these, to be extended
+ * @returns User message content
+ */
+function buildSummaryRequest(
+  description: string,
+  body: string,
+  userPrompt: string,
+  previousSummary?: string
+): string {
+  const hasUserPrompt = userPrompt && userPrompt.trim().length > 0;
+  if (previousSummary) {
+    // Extend an earlier summary with only the messages sent since
+    return `Here is a summary of the earlier conversation:\n\n${previousSummary}\n\nUpdate it with the following ${description}, keeping what still matters from the earlier summary:\n\n${body}${
+      hasUserPrompt ? `\n\nSpecific request: ${userPrompt}` : ''
+    }`;
+  }
+  if (hasUserPrompt) {
+    // User provided a specific query
+    return `Here are ${description} to summarize:\n\n${body}\n\nSpecific request: ${userPrompt}`;
+  }
+  // No specific query, general summary
+  return `Summarize the following ${description}:\n\n${body}`;
+}
+
+/**
+ * Condense a history that doesn't fit in one prompt into notes
+ *
+ * The history is split into chunks that are summarized separately (map), and
+ * the notes are merged in rounds until they fit in one prompt (reduce). A chunk
+ * that fails is replaced by a short description, so one bad call doesn't lose
+ * the whole summary.
+ *
+ * @param chunks - Consecutive chunks of messages, oldest first
+ * @param ai - AI client with the chat's model chain
+ * @param userPrompt - Optional custom request given after /summary
+ * @param platform - Platform the messages were sent on
+ * @returns Promise<string[]> - Notes, in order
+ */
+async function summarizeChunks(
+  chunks: SummaryMessage[][],
+  ai: AiTextClient,
+  userPrompt: string,
+  platform: CommandPlatform
+): Promise<string[]> {
+  const focus = userPrompt.trim()
+    ? `\n\nThe final summary has to answer this request, so note anything relevant to it: ${userPrompt}`
+    : '';
+
+  let failures = 0;
+  let notes = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, (chunk, index) =>
+    ai
+      .generate(`notes on chunk ${index + 1} of ${chunks.length}`, [
+        { role: 'system', content: CHUNK_SYSTEM_PROMPT },
+        {
+          role: 'user',
+          content: `Part ${index + 1} of ${chunks.length}, ${chunk.length} ${PLATFORM_NAMES[platform]} messages:\n\n${chunk.map(formatMessageLine).join('\n')}${focus}`,
+        },
+      ])
+      .then(result => result.text)
+      .catch(error => {
+        console.error(`Error summarizing chunk ${index + 1} of ${chunks.length}:`, error);
+        failures++;
+        return describeChunk(chunk);
+      })
+  );
+
+  if (failures === chunks.length) {
+    throw new Error(`All ${chunks.length} chunks failed to summarize`);
+  }
+
+  // Merge the notes in groups until they fit in one prompt; give up when a round doesn't shrink them
+  notes = notes.map((note, index) => `Part ${index + 1}:\n${note}`);
+  while (notes.length > 1 && estimateTokens(notes.join('\n\n')) > CHUNK_TOKEN_BUDGET) {
+    const groups = splitIntoChunks(notes, note => note, CHUNK_TOKEN_BUDGET);
+    if (groups.length >= notes.length) {
+      break;
+    }
+    notes = await mapWithConcurrency(groups, CHUNK_CONCURRENCY, group =>
+      ai
+        .generate('merged chunk notes', [
+          { role: 'system', content: CHUNK_SYSTEM_PROMPT },
+          {
+            role: 'user',
+            content: `Combine these notes on consecutive parts of a chat into one set of notes:\n\n${group.join('\n\n')}${focus}`,
+          },
+        ])
+        .then(result => result.text)
+        .catch(error => {
+          console.error('Error merging chunk notes:', error);
+          return group.join('\n\n');
+        })
+    );
+  }
+
+  return notes;
+}
+
+/**
+ * Split messages into the chunks summarizeChunks works on
+ *
+ * @param messages - Array of chat messages, newest first
+ * @returns Chunks of messages, oldest first
+ */
+function splitMessagesIntoChunks(messages: SummaryMessage[]): SummaryMessage[][] {
+  const ordered = [...messages].reverse(); // Order from oldest to newest
+  return splitIntoChunks(ordered, formatMessageLine, CHUNK_TOKEN_BUDGET);
+}
+
+/**
+ * Ask Cloudflare AI for a summary of chat messages
+ *
+ * Histories that fit in one prompt are summarized in one call; longer ones are
+ * summarized chunk by chunk first, see summarizeChunks. Unlike
+ * generateChatSummary this throws when the model fails, so callers can tell a
+ * real summary from the fallback.
+ *
+ * @param userPrompt - Optional custom request given after /summary
+ * @param messages - Array of chat messages, newest first
+ * @param ai - AI client with the chat's model chain
+ * @param platform - Platform the messages were sent on
+ * @param previousSummary - Summary of the messages before these, to be extended
+ * @param onPartial - Optional callback for the final summary as it's generated (HTML)
+ * @returns Promise with the generated summary and the model that wrote it
+ */
+async function requestChatSummary(
+  userPrompt: string,
+  messages: SummaryMessage[],
+  ai: AiTextClient,
+  platform: CommandPlatform,
+  previousSummary?: string,
+  onPartial?: (summary: string) => void
+): Promise<{ summary: string; model: AiModelName }> {
+  const chunks = splitMessagesIntoChunks(messages);
+  const description = `${messages.length} ${PLATFORM_NAMES[platform]} messages`;
+
+  let request: string;
+  if (chunks.length <= 1) {
+    // Build a conversation history to summarize
+    const conversationHistory = (chunks[0] ?? []).map(formatMessageLine).join('\n');
+    request = buildSummaryRequest(description, conversationHistory, userPrompt, previousSummary);
+  } else {
+    console.log(`Summarizing ${messages.length} messages in ${chunks.length} chunks`);
+    const notes = await summarizeChunks(chunks, ai, userPrompt, platform);
+    request = buildSummaryRequest(
+      `notes on ${description}, in ${chunks.length} consecutive parts`,
+      notes.join('\n\n'),
+      userPrompt,
+      previousSummary
+    );
+  }
+
+  const { text: rawResponse, model } = await ai.generate(
+    'summary',
+    [
+      { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+      { role: 'user', content: request },
+    ],
+    onPartial && (text => onPartial(renderTelegramHTML(markdownToTelegramHTML(text))))
+  );
+  console.log('Raw AI response:', rawResponse);
+
+  // Convert Markdown to HTML first, then sanitize for Telegram
+  return { summary: renderTelegramHTML(markdownToTelegramHTML(rawResponse)), model };
+}
+
 /**
  * Generate a summary of chat messages using Cloudflare AI
  *
- * @param messages - Array of chat messages
- * @param ai - Cloudflare AI instance
- * @returns Promise<string> - The generated summary
+ * @param userPrompt - Optional custom request given after /summary
+ * @param messages - Array of chat messages, newest first
+ * @param ai - AI client with the chat's model chain
+ * @param platform - Platform the messages were sent on
+ * @returns Promise<string> - The generated summary, or basic chat statistics if every model fails
  */
-async function generateChatSummary(
+export async function generateChatSummary(
   userPrompt: string,
   messages: Array<{
     message_text: string;
     sender_name: string;
     message_date: string;
   }>,
-  ai: Ai<AiModels>
+  ai: AiTextClient,
+  platform: CommandPlatform
 ): Promise<string> {
   try {
-    // Build a conversation history to summarize
-    const conversationHistory = messages
-      .reverse() // Order from oldest to newest
-      .map(msg => {
-        // Format date for display - convert ISO date to more readable format
-        const date = new Date(msg.message_date);
-        const formattedDate = date.toLocaleString('en-US', {
-          month: 'short',
-          day: 'numeric',
-          hour: '2-digit',
-          minute: '2-digit',
-        });
-        return `[${formattedDate}] ${msg.sender_name}: ${msg.message_text}`;
-      })
-      .join('\n');
-
-    // Prepare the AI messages based on whether there's a custom user prompt
-    const aiMessages = [
-      {
-        role: 'system',
-        content: `
-        You are Khmercoders assistant. Your main task is to provide brief 50 - 100 words, easy-to-read summaries of chat history.
-        
-        ---
-        Format Guidelines
-
-        When you respond, use these HTML tags for formatting:
-        - Use <b>text</b> for bold formatting (important topics, names)
-        - Use <i>text</i> for italic formatting (emphasis, side notes)
-        - Use <code>text</code> for inline code, commands, or technical terms
-        - Use <pre>text</pre> for code blocks (if needed)
-        - Use <tg-spoiler>text</tg-spoiler> for spoilers or sensitive content
-        - Use <u>text</u> for underlined text (sparingly)
-        
-        Example: "<b>Main Topics:</b> The discussion covered <i>project updates</i> and <code>/deploy</code> commands."
-        
-        IMPORTANT: Content will be automatically sanitized for security, so use HTML tags freely.
-        ---
-
-        ---
-        Custom Query Handling:
-
-        If the user provides a specific query or request after /summary, focus your summary on that aspect while still providing context.
-        
-        Examples:
-        - "/summary focus on technical discussions" → Focus on technical topics
-        - "/summary what decisions were made?" → Focus on decisions and conclusions
-        - "/summary who participated most?" → Focus on participant activity
-        - "/summary any issues mentioned?" → Focus on problems and issues
-        
-        If no specific query is provided, give a general balanced summary.
-        ---
-
-        ---
-        Your Restrictions:
-
-        Summaries Only: Your primary purpose is to summarize chat conversations. Make sure summaries are short and concise for quick reading.
-
-        "Who are you?" Exception: If someone asks "Who are you?", you can briefly state that you are the Khmercoders Assistant.
-
-        No Other Topics: Do not answer any other questions or engage in conversations outside of summarizing chats or stating your identity. Politely decline if asked to do anything else.
-        ---
-        `,
-      },
-    ];
-
-    // Add the conversation content
-    if (userPrompt && userPrompt.trim().length > 0) {
-      // User provided a specific query
-      aiMessages.push({
-        role: 'user',
-        content: `Here are ${messages.length} Telegram messages to summarize:\n\n${conversationHistory}\n\nSpecific request: ${userPrompt}`,
-      });
-    } else {
-      // No specific query, general summary
-      aiMessages.push({
-        role: 'user',
-        content: `Summarize the following ${messages.length} Telegram messages:\n\n${conversationHistory}`,
-      });
-    }
-
-    // Call Cloudflare AI to generate summary
-    const response: AiTextGenerationOutput = await ai.run(
-      '@cf/meta/llama-3.3-70b-instruct-fp8-fast',
-      {
-        messages: aiMessages,
-      },
-      {
-        gateway: {
-          id: 'khmercoders-bot-summary-gw',
-        },
-      }
-    );
-
-    // Check if the response is a ReadableStream (which we can't directly use)
-    if (response instanceof ReadableStream) {
-      console.warn('Received ReadableStream response which cannot be processed');
-      const fallbackMessage = "Sorry, I couldn't generate a summary at this time.";
-      return convertMarkdownToHTML(fallbackMessage);
-    }
-
-    // Return the response if available with proper HTML formatting
-    const rawResponse = response?.response || 'No summary generated';
-    console.log('Raw AI response:', rawResponse);
-
-    // Convert Markdown to HTML first, then sanitize for Telegram
-    const markdownConverted = convertMarkdownToHTML(rawResponse);
-    console.log('Markdown converted response:', markdownConverted);
-
-    return formatTelegramHTML(markdownConverted);
+    return (await requestChatSummary(userPrompt, messages, ai, platform)).summary;
   } catch (error) {
     console.error(`Error generating summary:`, error);
-
-    // Provide a fallback summary when AI fails
-    const fallbackSummary = generateFallbackSummary(messages, userPrompt);
-    const fallbackConverted = convertMarkdownToHTML(fallbackSummary);
-    return formatTelegramHTML(fallbackConverted);
+    return buildFallbackSummary(messages, userPrompt);
   }
 }
 
+/**
+ * Format the fallback summary for Telegram
+ *
+ * @param messages - Array of chat messages
+ * @param userPrompt - Optional user query
+ * @returns Sanitized HTML summary
+ */
+function buildFallbackSummary(
+  messages: Array<{
+    message_text: string;
+    sender_name: string;
+    message_date: string;
+  }>,
+  userPrompt: string
+): string {
+  return renderTelegramHTML(generateFallbackSummary(messages, userPrompt));
+}
+
+/**
+ * Fetch the messages to summarize from the archive of either platform
+ *
+ * @param db - D1Database instance
+ * @param platform - Platform of the chat
+ * @param chatId - Telegram chat ID or Discord channel ID
+ * @param threadId - Optional forum topic, Telegram only
+ * @param limit - Maximum number of messages
+ * @param options - Window and sender filters, see fetchRecentMessages
+ * @returns Promise with the messages, newest first
+ */
+async function fetchSummaryMessages(
+  db: D1Database,
+  platform: CommandPlatform,
+  chatId: string,
+  threadId: string | undefined,
+  limit: number,
+  options: { since?: string; fromMessageId?: string; senderId?: string; afterMessageId?: string }
+): Promise<Array<SummaryMessage & { message_id: string }>> {
+  return platform === 'discord'
+    ? await fetchRecentDiscordMessages(db, chatId, limit, options)
+    : await fetchRecentMessages(db, chatId, limit, threadId, options);
+}
+
+/**
+ * Format the heading of a summary reply
+ *
+ * @param isChannelSummary - Whether the linked channel was summarized
+ * @param date - When the summary was made
+ * @param scope - Descriptions of the chosen options (HTML)
+ * @returns Heading (HTML)
+ */
+function formatSummaryHeading(isChannelSummary: boolean, date: Date, scope: string[] = []): string {
+  const formattedDate = date.toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  const heading = `<b>📝 ${isChannelSummary ? 'Channel' : 'Chat'} Summary</b> (as of ${formattedDate})`;
+  return scope.length > 0 ? `${heading}\n<i>${scope.join(', ')}</i>` : heading;
+}
+
 /**
  * Process the /summary command
  *
- * @param c - Hono context
- * @param message - Telegram message
- * @param botToken - Telegram bot token
+ * @param ctx - Command context
+ * @param command - Parsed command
  */
 export async function processSummaryCommand(
-  c: Context<{ Bindings: CloudflareBindings }>,
-  message: TelegramMessage,
-  botToken: string
+  ctx: CommandContext,
+  command: ParsedCommand
 ): Promise<void> {
-  const chatId = message.chat.id.toString();
+  const { chatId, threadId } = ctx;
   const timestamp = new Date().toISOString();
-  const threadId = message.message_thread_id?.toString();
+  // Placeholder that shows the summary as it is generated
+  let live: LiveReply | undefined;
 
   try {
     console.log(
-      `[${timestamp}] Processing /summary command for chat ${chatId}${
+      `[${timestamp}] Processing /summary command for ${ctx.platform} chat ${chatId}${
         threadId ? `, thread ${threadId}` : ''
       }`
     );
     console.log(`[${timestamp}] Attempting to send 'typing' action for /summary...`);
-    await sendTelegramChatAction(botToken, chatId, 'typing', threadId);
+    await ctx.sendTyping();
     console.log(`[${timestamp}] 'typing' action sent for /summary.`);
 
+    const args = await parseSummaryArguments(ctx, command.argsText);
+    if ('error' in args) {
+      await ctx.reply(args.error);
+      return;
+    }
+    const { isChannelSummary, scope, prompt: userPrompt } = args;
+
+    // "/summary channel" summarizes the channel linked to this discussion group instead
+    let sourceChatId = chatId;
+    let sourceThreadId = threadId;
+    if (isChannelSummary) {
+      // Linked channels only exist on Telegram
+      const chat = ctx.telegram ? await getTelegramChat(ctx.telegram.client, chatId) : null;
+      if (!chat?.linked_chat_id) {
+        await ctx.reply('This group has no linked channel to summarize.');
+        return;
+      }
+
+      sourceChatId = chat.linked_chat_id.toString();
+      sourceThreadId = undefined;
+    }
+
+    if (args.messageLink && !(await isLinkToChat(ctx, args.messageLink, sourceChatId))) {
+      await ctx.reply('❌ That message link is not from this chat.');
+      return;
+    }
+
+    // Replying to a message with /summary starts from that message, unless it's from another chat
+    let fromMessageId = args.messageLink?.messageId;
+    if (!fromMessageId && ctx.replyTo && !isChannelSummary) {
+      fromMessageId = ctx.replyTo.messageId;
+      scope.push('since the replied message');
+    }
+
+    // Only whole-chat summaries are cached: scoped ones are rarely asked for twice
+    const isScoped = Boolean(args.since || fromMessageId || args.sender);
+    // Explicit windows may read far more messages than a summary of the latest ones
+    const hasWindow = Boolean(args.since || fromMessageId);
+
+    // The cached summary is extended with newer messages, unless it's too old to build on
+    const now = new Date();
+    const cacheKey = {
+      platform: ctx.platform,
+      chatId: sourceChatId,
+      threadId: sourceThreadId,
+      prompt: normalizeSummaryPrompt(userPrompt),
+    };
+    const cached = isScoped ? null : await getCachedSummary(ctx.env.DB, cacheKey);
+    const previous =
+      cached && now.getTime() - Date.parse(cached.created_at) < SUMMARY_CACHE_MAX_AGE_MS
+        ? cached
+        : null;
+
     // Fetch recent messages, filtering by thread if applicable
-    const messages = await fetchRecentMessages(c.env.DB, chatId, 200, threadId);
+    const options = {
+      since: args.since,
+      fromMessageId,
+      senderId: args.sender?.id,
+      afterMessageId: previous?.last_message_id,
+    };
+    const messages = await fetchSummaryMessages(
+      ctx.env.DB,
+      ctx.platform,
+      sourceChatId,
+      sourceThreadId,
+      hasWindow ? WINDOW_SUMMARY_MESSAGE_LIMIT : SUMMARY_MESSAGE_LIMIT,
+      options
+    );
 
-    if (messages.length === 0) {
-      await sendTelegramMessage(
-        botToken,
-        chatId,
-        'No messages found to summarize.',
-        threadId,
-        message.message_id
+    if (previous && messages.length === 0) {
+      const updatedAt = new Date(previous.updated_at);
+      const age = formatDuration(now.getTime() - updatedAt.getTime());
+      console.log(`[${timestamp}] No new messages in chat ${sourceChatId}, reusing cached summary`);
+      await ctx.reply(
+        `${formatSummaryHeading(isChannelSummary, updatedAt)}\n\n${previous.summary}\n\n<i>♻️ No new messages since this summary was made ${age} ago.</i>`
       );
       return;
     }
 
+    if (messages.length === 0) {
+      await ctx.reply('No messages found to summarize.');
+      return;
+    }
+
+    // With a full window of new messages the earlier summary would only describe older ones
+    const extended = previous && messages.length < SUMMARY_MESSAGE_LIMIT ? previous : null;
+
     console.log(
-      `[${timestamp}] Fetched ${messages.length} messages for summarization${
-        threadId ? ` from thread ${threadId}` : ''
+      `[${timestamp}] Fetched ${messages.length} ${extended ? 'new ' : ''}messages for summarization from chat ${sourceChatId}${
+        sourceThreadId ? `, thread ${sourceThreadId}` : ''
       }`
     );
 
-    // User prompt
-    const userPrompt = message.text?.replace('/summary', '').trim() || '';
+    // The chat's chosen model is tried first, then the configured chain. The
+    // answer has to be ready before the request's waitUntil time runs out.
+    const settings = await getChatSettings(ctx.env.DB, chatId);
+    const ai = createAiTextClient(ctx.env, settings?.summary_model, REQUEST_AI_DEADLINE_MS);
 
-    // Generate summary
-    const summary = await generateChatSummary(userPrompt, messages, c.env.AI);
-    const currentDate = new Date().toLocaleString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
+    // Summarizing a long window chunk by chunk takes longer than the webhook request is kept alive
+    const isQueued = hasWindow && splitMessagesIntoChunks(messages).length > 1;
 
-    const summaryText = `<b>📝 Chat Summary</b> (as of ${currentDate})\n\n${summary}`;
-    await sendTelegramMessage(botToken, chatId, summaryText, threadId, message.message_id);
-    console.log(
-      `[${timestamp}] Summary sent to chat ${chatId}${threadId ? `, thread ${threadId}` : ''}`
+    const heading = formatSummaryHeading(isChannelSummary, now, scope);
+    const liveReply = await ctx.replyLive(
+      `${heading}\n\n<i>⏳ Summarizing ${messages.length} messages${
+        isQueued ? ', this can take a few minutes' : ''
+      }…</i>`
     );
-  } catch (error) {
-    console.error(`[${timestamp}] Error processing summary command:`, error);
+    live = liveReply;
 
-    // Send error message
-    await sendTelegramMessage(
-      botToken,
-      chatId,
-      'Sorry, an error occurred while generating the summary.',
-      threadId,
-      message.message_id
-    );
-  }
-}
+    if (isQueued) {
+      const job: SummaryJob = {
+        platform: ctx.platform,
+        chatId,
+        sourceChatId,
+        sourceThreadId,
+        since: args.since,
+        fromMessageId,
+        senderId: args.sender?.id,
+        heading,
+        prompt: userPrompt,
+        reply: liveReply.target,
+      };
+      await ctx.env.SUMMARY_QUEUE.send(job);
+      console.log(
+        `[${timestamp}] Queued summary of ${messages.length} messages from chat ${sourceChatId}`
+      );
+      return;
+    }
 
-/**
- * Sanitize and format HTML content for Telegram messages
- *
- * @param htmlContent - Raw HTML content
- * @returns Sanitized HTML string safe for Telegram
- */
-function formatTelegramHTML(htmlContent: string): string {
-  try {
-    // Telegram's allowed HTML tags
-    const telegramAllowedTags = [
-      'b',
-      'strong',
-      'i',
-      'em',
-      'u',
-      'ins',
-      's',
-      'strike',
-      'del',
-      'code',
-      'pre',
-      'a',
-      'tg-spoiler',
-    ];
-
-    // First, escape all HTML entities to prevent XSS
-    let sanitized = htmlContent
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#x27;');
-
-    // Re-allow only Telegram's supported HTML tags
-    telegramAllowedTags.forEach(tag => {
-      // Allow opening tags
-      const openTagRegex = new RegExp(`&lt;${tag}&gt;`, 'gi');
-      sanitized = sanitized.replace(openTagRegex, `<${tag}>`);
-
-      // Allow closing tags
-      const closeTagRegex = new RegExp(`&lt;\\/${tag}&gt;`, 'gi');
-      sanitized = sanitized.replace(closeTagRegex, `</${tag}>`);
+    // Generate summary; the fallback statistics are shown but never cached
+    const result = await requestChatSummary(
+      userPrompt,
+      messages,
+      ai,
+      ctx.platform,
+      extended?.summary,
+      partial => liveReply.update(`${heading}\n\n${partial}`)
+    ).catch(error => {
+      console.error(`[${timestamp}] Error generating summary:`, error);
+      return null;
     });
 
-    // Handle special case for <a> tags with href attribute
-    // Pattern: &lt;a href=&quot;URL&quot;&gt; -> <a href="URL">
-    sanitized = sanitized.replace(/&lt;a\s+href=&quot;([^&"]+)&quot;&gt;/gi, '<a href="$1">');
-
-    // Handle closing </a> tags
-    sanitized = sanitized.replace(/&lt;\/a&gt;/gi, '</a>');
+    if (result) {
+      console.log(
+        `[${timestamp}] Summary of ${messages.length} messages for chat ${sourceChatId} written by ${result.model}`
+      );
+    }
 
-    // Validate that tags are properly nested and remove malformed ones
-    sanitized = validateAndCleanTelegramHTML(sanitized);
+    const summary = result?.summary;
+    if (result && !isScoped) {
+      await saveCachedSummary(ctx.env.DB, cacheKey, {
+        last_message_id: messages[0].message_id,
+        message_count: messages.length + (extended?.message_count ?? 0),
+        summary: result.summary,
+        model: result.model,
+        created_at: extended?.created_at ?? now.toISOString(),
+        updated_at: now.toISOString(),
+      });
+    }
 
-    return sanitized;
+    const summaryText = `${heading}\n\n${summary ?? buildFallbackSummary(messages, userPrompt)}`;
+    await liveReply.finish(summaryText);
+    console.log(
+      `[${timestamp}] Summary sent to chat ${chatId}${threadId ? `, thread ${threadId}` : ''}`
+    );
   } catch (error) {
-    console.error('Error formatting HTML for Telegram:', error);
-    // Return plain text fallback on error
-    return htmlContent.replace(/<[^>]*>/g, '');
-  }
-}
-
-/**
- * Validate and clean Telegram HTML to ensure proper tag nesting
- *
- * @param html - HTML string to validate
- * @returns Cleaned HTML string
- */
-function validateAndCleanTelegramHTML(html: string): string {
-  try {
-    // Remove any tags that are not properly closed or nested
-    // This is a simple validation - for more complex validation, we'd need a proper HTML parser
-
-    // Remove empty tags
-    html = html.replace(/<(b|strong|i|em|u|ins|s|strike|del|code|pre|tg-spoiler)><\/\1>/gi, '');
-
-    // Remove nested identical tags (Telegram doesn't support nested formatting of same type)
-    const tagsToCheck = [
-      'b',
-      'strong',
-      'i',
-      'em',
-      'u',
-      'ins',
-      's',
-      'strike',
-      'del',
-      'code',
-      'tg-spoiler',
-    ];
-
-    tagsToCheck.forEach(tag => {
-      // Remove nested identical tags: <b><b>text</b></b> -> <b>text</b>
-      const nestedRegex = new RegExp(
-        `<${tag}>([^<]*)<${tag}>([^<]*)<\\/${tag}>([^<]*)<\\/${tag}>`,
-        'gi'
-      );
-      html = html.replace(nestedRegex, `<${tag}>$1$2$3</${tag}>`);
-    });
+    console.error(`[${timestamp}] Error processing summary command:`, error);
 
-    return html;
-  } catch (error) {
-    console.error('Error validating Telegram HTML:', error);
-    return html;
+    // Send error message, replacing the placeholder if there is one
+    const errorText = 'Sorry, an error occurred while generating the summary.';
+    await (live ? live.finish(errorText) : ctx.reply(errorText));
   }
 }
 
@@ -398,11 +899,11 @@ function generateFallbackSummary(
   let summary = `<b>💬 Chat Activity Summary</b>\n\n`;
   summary += `<b>📊 Stats:</b>\n`;
   summary += `• <i>Messages:</i> ${messages.length}\n`;
-  summary += `• <i>Participants:</i> ${participants.length} (${participants.join(', ')})\n`;
+  summary += `• <i>Participants:</i> ${participants.length} (${escapeHTML(participants.join(', '))})\n`;
   summary += `• <i>Time Range:</i> ${formatDate(earliestDate)} - ${formatDate(latestDate)}\n\n`;
 
   if (userPrompt && userPrompt.trim().length > 0) {
-    summary += `<b>🔍 Query:</b> <i>"${userPrompt}"</i>\n\n`;
+    summary += `<b>🔍 Query:</b> <i>"${escapeHTML(userPrompt)}"</i>\n\n`;
     summary += `<b>📝 Note:</b> <i>AI summarization is temporarily unavailable. Please try again later for detailed analysis.</i>`;
   } else {
     summary += `<b>📝 Note:</b> <i>AI summarization is temporarily unavailable. Showing basic chat statistics instead.</i>`;
@@ -410,3 +911,47 @@ function generateFallbackSummary(
 
   return summary;
 }
+
+/**
+ * Run a summary that was queued by processSummaryCommand
+ *
+ * The messages are fetched again, so messages sent since the command was
+ * queued are included. The placeholder is replaced with the summary, or with an
+ * error message if it can't be generated.
+ *
+ * @param env - Worker bindings
+ * @param job - Queued summary
+ * @returns Promise<void>
+ */
+export async function runSummaryJob(env: CloudflareBindings, job: SummaryJob): Promise<void> {
+  const timestamp = new Date().toISOString();
+  const liveReply = resumeLiveReply(env, job.reply);
+
+  try {
+    const messages = await fetchSummaryMessages(
+      env.DB,
+      job.platform,
+      job.sourceChatId,
+      job.sourceThreadId,
+      WINDOW_SUMMARY_MESSAGE_LIMIT,
+      { since: job.since, fromMessageId: job.fromMessageId, senderId: job.senderId }
+    );
+    console.log(
+      `[${timestamp}] Running queued summary of ${messages.length} messages from chat ${job.sourceChatId}`
+    );
+
+    const settings = await getChatSettings(env.DB, job.chatId);
+    const summary = await generateChatSummary(
+      job.prompt,
+      messages,
+      createAiTextClient(env, settings?.summary_model),
+      job.platform
+    );
+
+    await liveReply.finish(`${job.heading}\n\n${summary}`);
+    console.log(`[${timestamp}] Queued summary sent to chat ${job.chatId}`);
+  } catch (error) {
+    console.error(`[${timestamp}] Error running queued summary:`, error);
+    await liveReply.finish('Sorry, an error occurred while generating the summary.');
+  }
+}
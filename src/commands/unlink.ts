@@ -0,0 +1,64 @@
+import { ParsedCommand } from '../utils/command-helpers';
+import { getUser } from '../utils/db-helpers';
+import { unlinkUserAccount } from '../utils/link-helpers';
+import { escapeHTML } from '../utils/render-helpers';
+import { CommandContext } from './context';
+
+/**
+ * Process the /unlink command
+ * Without arguments it only asks for confirmation; "/unlink confirm" removes the link.
+ * Registered for private messages only, see commands/index.ts
+ *
+ * @param ctx - Command context
+ * @param command - Parsed command
+ */
+export async function processUnlinkCommand(
+  ctx: CommandContext,
+  command: ParsedCommand
+): Promise<void> {
+  const { chatId } = ctx;
+  const timestamp = new Date().toISOString();
+
+  try {
+    console.log(`[${timestamp}] Processing /unlink command for ${ctx.platform} chat ${chatId}`);
+
+    if (!ctx.user) {
+      await ctx.reply('❌ Unable to process your request. Please try again.');
+      return;
+    }
+
+    const confirmed = command.args[0]?.toLowerCase() === 'confirm';
+
+    if (!confirmed) {
+      const user = await getUser(ctx.env.DB, ctx.platform, ctx.user.id);
+      if (!user?.linked_user_id) {
+        await ctx.reply('ℹ️ Your account is not linked to a website account.');
+        return;
+      }
+
+      await ctx.reply(
+        `⚠️ This will unlink your account from website account <code>${escapeHTML(user.linked_user_id)}</code>. ` +
+          'Your stats will no longer be combined with your other linked accounts.\n\n' +
+          'To continue, send /unlink confirm'
+      );
+      return;
+    }
+
+    const previousLinkedUserId = await unlinkUserAccount(ctx.env.DB, ctx.platform, ctx.user.id);
+    if (!previousLinkedUserId) {
+      await ctx.reply('ℹ️ Your account is not linked to a website account.');
+      return;
+    }
+
+    console.log(
+      `[${timestamp}] Unlinked user ${ctx.user.displayName} (${ctx.user.id}) from website account ${previousLinkedUserId}`
+    );
+
+    await ctx.reply(
+      `✅ Your account has been unlinked from website account <code>${escapeHTML(previousLinkedUserId)}</code>.`
+    );
+  } catch (error) {
+    console.error(`[${timestamp}] Error processing unlink command:`, error);
+    await ctx.reply('❌ Sorry, an error occurred while processing your unlink request.');
+  }
+}
@@ -0,0 +1,66 @@
+import { getLinkedAccounts, getUser } from '../utils/db-helpers';
+import { getLatestLinkAudit } from '../utils/link-helpers';
+import { escapeHTML } from '../utils/render-helpers';
+import { CommandContext } from './context';
+
+/**
+ * Process the /whoami command
+ * Shows the caller's account and the khmercoder.com account it is linked to.
+ * Registered for private messages only, see commands/index.ts
+ *
+ * @param ctx - Command context
+ */
+export async function processWhoamiCommand(ctx: CommandContext): Promise<void> {
+  const { chatId } = ctx;
+  const timestamp = new Date().toISOString();
+
+  try {
+    console.log(`[${timestamp}] Processing /whoami command for ${ctx.platform} chat ${chatId}`);
+
+    if (!ctx.user) {
+      await ctx.reply('❌ Unable to process your request. Please try again.');
+      return;
+    }
+
+    const [user, lastChange] = await Promise.all([
+      getUser(ctx.env.DB, ctx.platform, ctx.user.id),
+      getLatestLinkAudit(ctx.env.DB, ctx.platform, ctx.user.id),
+    ]);
+
+    const lines = [
+      `👤 <b>${escapeHTML(ctx.user.displayName)}</b>`,
+      `Platform: ${ctx.platform}`,
+      `ID: <code>${escapeHTML(ctx.user.id)}</code>`,
+    ];
+    if (ctx.user.username) {
+      lines.push(`Username: @${escapeHTML(ctx.user.username)}`);
+    }
+
+    const linkedUserId = user?.linked_user_id;
+    if (linkedUserId) {
+      lines.push('', `🔗 Linked to website account <code>${escapeHTML(linkedUserId)}</code>`);
+
+      const otherAccounts = (await getLinkedAccounts(ctx.env.DB, linkedUserId)).filter(
+        account => account.platform !== ctx.platform || account.user_id !== ctx.user?.id
+      );
+      for (const account of otherAccounts) {
+        lines.push(
+          `• Also linked: ${escapeHTML(account.display_name)} on ${escapeHTML(account.platform)}`
+        );
+      }
+
+      lines.push('', 'Use /unlink to remove the link.');
+    } else {
+      lines.push('', 'Not linked to a website account. Use /link &lt;code&gt; to link it.');
+    }
+
+    if (lastChange) {
+      lines.push(`Last change: ${lastChange.action} on ${lastChange.created_at.slice(0, 10)}`);
+    }
+
+    await ctx.reply(lines.join('\n'));
+  } catch (error) {
+    console.error(`[${timestamp}] Error processing whoami command:`, error);
+    await ctx.reply('❌ Sorry, an error occurred while looking up your account.');
+  }
+}
@@ -0,0 +1,198 @@
+import { Context } from 'hono';
+import { createTelegramClient, TelegramApiError } from '../utils/telegram-client';
+import { setDiscordApplicationCommands } from '../utils/discord-helpers';
+import { removeLegacyTelegramThreadIdFromBlacklist } from '../utils/db-helpers';
+import { commands, Command, getCommandUsage, isCommandOnPlatform } from '../commands';
+import { DISCORD_ARGS_OPTION, DISCORD_OPTION_STRING } from '../types/discord';
+
+/**
+ * Register this worker's /telegram/webhook route with Telegram
+ *
+ * Uses TELEGRAM_WEBHOOK_SECRET as the secret token. The webhook URL defaults to
+ * the origin of this request and can be overridden with a JSON body `{ "url": "..." }`.
+ *
+ * @param c - Hono context
+ * @returns HTTP response
+ */
+export async function handleSetTelegramWebhook(
+  c: Context<{ Bindings: CloudflareBindings }>
+): Promise<Response> {
+  const timestamp = new Date().toISOString();
+
+  try {
+    if (!c.env.TELEGRAM_WEBHOOK_SECRET) {
+      return c.json(
+        { success: false, error: 'TELEGRAM_WEBHOOK_SECRET must be configured first' },
+        400
+      );
+    }
+
+    const body = await c.req.json<{ url?: string }>().catch(() => ({}) as { url?: string });
+    const url = body.url || new URL('/telegram/webhook', c.req.url).toString();
+
+    console.log(`[${timestamp}] Setting Telegram webhook to ${url}`);
+    await createTelegramClient(c.env).setWebhook({
+      url,
+      secret_token: c.env.TELEGRAM_WEBHOOK_SECRET,
+    });
+
+    return c.json({ success: true, url });
+  } catch (error) {
+    if (error instanceof TelegramApiError) {
+      console.error(`[${timestamp}] Telegram rejected setWebhook: ${error.description}`);
+      return c.json({ success: false, error: error.description }, 502);
+    }
+
+    console.error(`[${timestamp}] Error setting Telegram webhook:`, error);
+    return c.json({ success: false, error: 'Internal server error' }, 500);
+  }
+}
+
+/**
+ * Publish the command registry to Telegram's command menu with setMyCommands
+ *
+ * Private chats, group members and group administrators each get the commands
+ * they are allowed to use.
+ *
+ * @param c - Hono context
+ * @returns HTTP response
+ */
+export async function handleSetTelegramCommands(
+  c: Context<{ Bindings: CloudflareBindings }>
+): Promise<Response> {
+  const timestamp = new Date().toISOString();
+
+  const scopes: Array<{
+    scope: 'all_private_chats' | 'all_group_chats' | 'all_chat_administrators';
+    filter: (command: Command) => boolean;
+  }> = [
+    { scope: 'all_private_chats', filter: command => command.chatTypes.includes('private') },
+    {
+      scope: 'all_group_chats',
+      filter: command => command.chatTypes.includes('supergroup') && !command.adminOnly,
+    },
+    {
+      scope: 'all_chat_administrators',
+      filter: command => command.chatTypes.includes('supergroup'),
+    },
+  ];
+
+  try {
+    const client = createTelegramClient(c.env);
+
+    for (const { scope, filter } of scopes) {
+      const menu = commands
+        .filter(command => isCommandOnPlatform(command, 'telegram') && filter(command))
+        .map(command => ({
+          command: command.name,
+          description: command.description.slice(0, 256),
+        }));
+
+      console.log(`[${timestamp}] Setting ${menu.length} Telegram commands for ${scope}`);
+      await client.setMyCommands({ commands: menu, scope: { type: scope } });
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    if (error instanceof TelegramApiError) {
+      console.error(`[${timestamp}] Telegram rejected setMyCommands: ${error.description}`);
+      return c.json({ success: false, error: error.description }, 502);
+    }
+
+    console.error(`[${timestamp}] Error setting Telegram commands:`, error);
+    return c.json({ success: false, error: 'Internal server error' }, 500);
+  }
+}
+
+/**
+ * Publish the Discord commands in the registry as global slash commands
+ *
+ * Each command takes its arguments as a single optional (or required) string
+ * option, so they are parsed exactly as they are on Telegram.
+ *
+ * @param c - Hono context
+ * @returns HTTP response
+ */
+export async function handleSetDiscordCommands(
+  c: Context<{ Bindings: CloudflareBindings }>
+): Promise<Response> {
+  const timestamp = new Date().toISOString();
+
+  try {
+    if (!c.env.DISCORD_APPLICATION_ID || !c.env.DISCORD_BOT_TOKEN) {
+      return c.json(
+        {
+          success: false,
+          error: 'DISCORD_APPLICATION_ID and DISCORD_BOT_TOKEN must be configured first',
+        },
+        400
+      );
+    }
+
+    const definitions = commands
+      .filter(command => isCommandOnPlatform(command, 'discord'))
+      .map(command => ({
+        name: command.name,
+        description: command.description.slice(0, 100),
+        options: command.args?.length
+          ? [
+              {
+                type: DISCORD_OPTION_STRING,
+                name: DISCORD_ARGS_OPTION,
+                description: getCommandUsage(command).slice(0, 100),
+                required: command.args.some(arg => arg.required),
+              },
+            ]
+          : undefined,
+      }));
+
+    console.log(`[${timestamp}] Setting ${definitions.length} Discord application commands`);
+    const result = await setDiscordApplicationCommands(
+      c.env.DISCORD_APPLICATION_ID,
+      c.env.DISCORD_BOT_TOKEN,
+      definitions
+    );
+
+    if (!result.ok) {
+      console.error(`[${timestamp}] Discord rejected the commands: ${result.description}`);
+      return c.json({ success: false, error: result.description || 'Registration failed' }, 502);
+    }
+
+    return c.json({ success: true, commands: definitions.map(command => command.name) });
+  } catch (error) {
+    console.error(`[${timestamp}] Error setting Discord commands:`, error);
+    return c.json({ success: false, error: 'Internal server error' }, 500);
+  }
+}
+
+/**
+ * Remove a legacy blacklist entry that applies to every Telegram chat
+ *
+ * Group admins can only remove their own chat's entries with /blacklist remove.
+ *
+ * @param c - Hono context
+ * @returns HTTP response
+ */
+export async function handleRemoveLegacyBlacklistTopic(
+  c: Context<{ Bindings: CloudflareBindings }>
+): Promise<Response> {
+  const timestamp = new Date().toISOString();
+
+  try {
+    const threadId = c.req.param('threadId');
+    if (!/^\d+$/.test(threadId)) {
+      return c.json({ success: false, error: 'Invalid topic ID' }, 400);
+    }
+
+    const removed = await removeLegacyTelegramThreadIdFromBlacklist(c.env.DB, threadId);
+    if (!removed) {
+      return c.json({ success: false, error: 'No legacy entry for this topic' }, 404);
+    }
+
+    console.log(`[${timestamp}] Removed legacy blacklist entry for topic ${threadId}`);
+    return c.json({ success: true });
+  } catch (error) {
+    console.error(`[${timestamp}] Error removing legacy blacklist entry:`, error);
+    return c.json({ success: false, error: 'Internal server error' }, 500);
+  }
+}
@@ -0,0 +1,324 @@
+import { Context } from 'hono';
+import {
+  ApiDailyActivity,
+  ApiDateRange,
+  ApiLeaderboard,
+  ApiLinkedUserStats,
+  ApiPagination,
+  ApiResponse,
+  ApiUserStats,
+} from '../types/api';
+import { getLinkedAccounts, getUser } from '../utils/db-helpers';
+import {
+  DailyCount,
+  getLeaderboard,
+  getUserDailyCounts,
+  getUserRank,
+  getUserTotals,
+  isValidChatDate,
+  LeaderboardMetric,
+} from '../utils/stats-helpers';
+
+type ApiContext = Context<{ Bindings: CloudflareBindings }>;
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+interface ApiQuery {
+  chatId?: string;
+  startDate?: string;
+  endDate?: string;
+  mergeLinked: boolean;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Parse the query parameters shared by every stats route
+ *
+ * - `from` / `to` - inclusive 'YYYY-MM-DD' date range (UTC)
+ * - `chat_id` - restrict to a single chat
+ * - `merge_linked` - 'true' or '1' to combine accounts linked to the same website user
+ * - `page` (1-based) / `limit` - pagination
+ *
+ * @param c - Hono context
+ * @returns Parsed query or an error message
+ */
+function parseApiQuery(c: ApiContext): ApiQuery | { error: string } {
+  const from = c.req.query('from');
+  const to = c.req.query('to');
+  const chatId = c.req.query('chat_id');
+  const mergeLinked = c.req.query('merge_linked');
+  const page = Number(c.req.query('page') ?? 1);
+  const limit = Number(c.req.query('limit') ?? DEFAULT_PAGE_SIZE);
+
+  if (from && !isValidChatDate(from)) {
+    return { error: 'Invalid "from" date, expected YYYY-MM-DD' };
+  }
+  if (to && !isValidChatDate(to)) {
+    return { error: 'Invalid "to" date, expected YYYY-MM-DD' };
+  }
+  if (from && to && from > to) {
+    return { error: '"from" must not be after "to"' };
+  }
+  if (!Number.isInteger(page) || page < 1) {
+    return { error: '"page" must be a positive integer' };
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `"limit" must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  return {
+    chatId: chatId || undefined,
+    startDate: from,
+    endDate: to,
+    mergeLinked: mergeLinked === 'true' || mergeLinked === '1',
+    page,
+    limit,
+  };
+}
+
+/**
+ * Describe the requested date range in API form
+ *
+ * @param query - Parsed query
+ * @returns ApiDateRange
+ */
+function toApiRange(query: ApiQuery): ApiDateRange {
+  return { from: query.startDate ?? null, to: query.endDate ?? null };
+}
+
+/**
+ * Paginate daily activity in memory, newest day first
+ *
+ * @param daily - Per-day activity, oldest first
+ * @param query - Parsed query with page and limit
+ * @returns The requested page and its pagination info
+ */
+function paginateDaily(
+  daily: DailyCount[],
+  query: ApiQuery
+): { daily: ApiDailyActivity[]; pagination: ApiPagination } {
+  const start = (query.page - 1) * query.limit;
+  const page = [...daily].reverse().slice(start, start + query.limit);
+
+  return {
+    daily: page.map(day => ({
+      date: day.chat_date,
+      message_count: day.message_count,
+      message_length: day.message_length,
+    })),
+    pagination: {
+      page: query.page,
+      limit: query.limit,
+      has_more: start + query.limit < daily.length,
+    },
+  };
+}
+
+/**
+ * Send a JSON error in the API envelope
+ *
+ * @param c - Hono context
+ * @param error - Error message
+ * @param status - HTTP status code
+ * @returns HTTP response
+ */
+function apiError(c: ApiContext, error: string, status: 400 | 404 | 500): Response {
+  return c.json<ApiResponse<never>>({ success: false, error }, status);
+}
+
+/**
+ * GET /api/leaderboard
+ *
+ * Extra query parameters: `platform` and `metric` ('messages' or 'length').
+ * With `merge_linked`, linked accounts are ranked as one entry.
+ *
+ * @param c - Hono context
+ * @returns HTTP response
+ */
+export async function handleLeaderboardApi(c: ApiContext): Promise<Response> {
+  try {
+    const query = parseApiQuery(c);
+    if ('error' in query) {
+      return apiError(c, query.error, 400);
+    }
+
+    const metric = (c.req.query('metric') ?? 'messages') as LeaderboardMetric;
+    if (metric !== 'messages' && metric !== 'length') {
+      return apiError(c, '"metric" must be "messages" or "length"', 400);
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const rows = await getLeaderboard(c.env.DB, {
+      platform: c.req.query('platform') || undefined,
+      chatId: query.chatId,
+      startDate: query.startDate,
+      endDate: query.endDate,
+      metric,
+      mergeLinked: query.mergeLinked,
+      limit: query.limit + 1,
+      offset: (query.page - 1) * query.limit,
+    });
+
+    return c.json<ApiResponse<ApiLeaderboard>>({
+      success: true,
+      data: {
+        metric,
+        merge_linked: query.mergeLinked,
+        chat_id: query.chatId ?? null,
+        range: toApiRange(query),
+        entries: rows.slice(0, query.limit),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          has_more: rows.length > query.limit,
+        },
+      },
+    });
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error serving leaderboard API:`, error);
+    return apiError(c, 'Internal server error', 500);
+  }
+}
+
+/**
+ * GET /api/users/:platform/:userId/stats
+ *
+ * With `merge_linked`, activity of every account linked to the same website user
+ * is included, and the rank is that of the merged person across all platforms.
+ * @param c - Hono context
+ * @returns HTTP response
+ */
+export async function handleUserStatsApi(c: ApiContext): Promise<Response> {
+  try {
+    const query = parseApiQuery(c);
+    if ('error' in query) {
+      return apiError(c, query.error, 400);
+    }
+
+    const platform = c.req.param('platform');
+    const userId = c.req.param('userId');
+
+    const user = await getUser(c.env.DB, platform, userId);
+    if (!user) {
+      return apiError(c, 'User not found', 404);
+    }
+
+    const options = {
+      platform,
+      userId,
+      chatId: query.chatId,
+      startDate: query.startDate,
+      endDate: query.endDate,
+      mergeLinked: query.mergeLinked,
+    };
+
+    const [totals, dailyCounts, rank] = await Promise.all([
+      getUserTotals(c.env.DB, options),
+      getUserDailyCounts(c.env.DB, options),
+      getUserRank(c.env.DB, platform, userId, {
+        ...options,
+        // Merged people span platforms, so they are ranked against everyone
+        platform: query.mergeLinked ? undefined : platform,
+        metric: 'messages',
+      }),
+    ]);
+
+    return c.json<ApiResponse<ApiUserStats>>({
+      success: true,
+      data: {
+        account: { platform, user_id: userId, display_name: user.display_name },
+        linked_user_id: user.linked_user_id,
+        merge_linked: query.mergeLinked,
+        chat_id: query.chatId ?? null,
+        range: toApiRange(query),
+        totals: { message_count: totals.message_count, message_length: totals.message_length },
+        rank: rank?.rank ?? null,
+        ...paginateDaily(dailyCounts, query),
+      },
+    });
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error serving user stats API:`, error);
+    return apiError(c, 'Internal server error', 500);
+  }
+}
+
+/**
+ * GET /api/linked/:linkedUserId/stats
+ *
+ * Aggregates activity across every platform account linked to the website user.
+ *
+ * @param c - Hono context
+ * @returns HTTP response
+ */
+export async function handleLinkedUserStatsApi(c: ApiContext): Promise<Response> {
+  try {
+    const query = parseApiQuery(c);
+    if ('error' in query) {
+      return apiError(c, query.error, 400);
+    }
+
+    const linkedUserId = c.req.param('linkedUserId');
+    const accounts = await getLinkedAccounts(c.env.DB, linkedUserId);
+    if (accounts.length === 0) {
+      return apiError(c, 'No accounts linked to this user', 404);
+    }
+
+    const perAccount = await Promise.all(
+      accounts.map(async account => {
+        const options = {
+          platform: account.platform,
+          userId: account.user_id,
+          chatId: query.chatId,
+          startDate: query.startDate,
+          endDate: query.endDate,
+        };
+        const [totals, dailyCounts] = await Promise.all([
+          getUserTotals(c.env.DB, options),
+          getUserDailyCounts(c.env.DB, options),
+        ]);
+        return { account, totals, dailyCounts };
+      })
+    );
+
+    // Merge every account's days into one timeline
+    const merged = new Map<string, DailyCount>();
+    for (const { dailyCounts } of perAccount) {
+      for (const day of dailyCounts) {
+        const existing = merged.get(day.chat_date);
+        merged.set(day.chat_date, {
+          chat_date: day.chat_date,
+          message_count: (existing?.message_count ?? 0) + day.message_count,
+          message_length: (existing?.message_length ?? 0) + day.message_length,
+        });
+      }
+    }
+    const daily = [...merged.values()].sort((a, b) => a.chat_date.localeCompare(b.chat_date));
+
+    const accountStats = perAccount.map(({ account, totals }) => ({
+      platform: account.platform,
+      user_id: account.user_id,
+      display_name: account.display_name,
+      totals: { message_count: totals.message_count, message_length: totals.message_length },
+    }));
+
+    return c.json<ApiResponse<ApiLinkedUserStats>>({
+      success: true,
+      data: {
+        linked_user_id: linkedUserId,
+        chat_id: query.chatId ?? null,
+        range: toApiRange(query),
+        accounts: accountStats,
+        totals: {
+          message_count: accountStats.reduce((sum, a) => sum + a.totals.message_count, 0),
+          message_length: accountStats.reduce((sum, a) => sum + a.totals.message_length, 0),
+        },
+        ...paginateDaily(daily, query),
+      },
+    });
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error serving linked user stats API:`, error);
+    return apiError(c, 'Internal server error', 500);
+  }
+}
@@ -0,0 +1,187 @@
+import { Context } from 'hono';
+import {
+  DISCORD_ARGS_OPTION,
+  DISCORD_INTERACTION_APPLICATION_COMMAND,
+  DISCORD_INTERACTION_PING,
+  DISCORD_MESSAGE_FLAG_EPHEMERAL,
+  DISCORD_RESPONSE_CHANNEL_MESSAGE,
+  DISCORD_RESPONSE_DEFERRED_CHANNEL_MESSAGE,
+  DISCORD_RESPONSE_PONG,
+  DiscordInteraction,
+  DiscordWebhookPayload,
+} from '../types/discord';
+import { countUserMessage } from '../utils/db-helpers';
+import { recordDiscordChannelMessage } from '../utils/discord-helpers';
+import {
+  verifyEd25519Signature,
+  verifyHmacSignature,
+  verifySharedSecret,
+} from '../utils/auth-helpers';
+import { dispatchCommand, findCommand, isCommandOnPlatform } from '../commands';
+import { createDiscordCommandContext } from '../commands/context';
+import { tokenizeArguments } from '../utils/command-helpers';
+
+/**
+ * Handle incoming Discord webhook requests from the relay bot
+ * @param c - Hono context
+ * @returns HTTP response
+ */
+export async function handleDiscordWebhook(
+  c: Context<{ Bindings: CloudflareBindings }>
+): Promise<Response> {
+  try {
+    const timestamp = new Date().toISOString();
+    console.log(`[${timestamp}] Received Discord webhook request`);
+
+    // Authenticate with an HMAC signature of the body, or the shared secret itself
+    const body = await c.req.text();
+    const signature = c.req.header('X-Webhook-Signature');
+    const secret = c.env.DISCORD_WEBHOOK_SECRET;
+    const authorized =
+      signature && secret
+        ? await verifyHmacSignature(secret, body, signature)
+        : verifySharedSecret(c.env, secret, c.req.header('X-Webhook-Secret'));
+
+    if (!authorized) {
+      console.warn(`[${timestamp}] Rejected Discord webhook with invalid signature or secret`);
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    // Parse the incoming webhook data
+    const payload: DiscordWebhookPayload = JSON.parse(body);
+
+    // Early return if no message data or user ID found
+    if (!payload || !payload.username || !payload.user_id) {
+      console.log(`[${timestamp}] No valid message data found in the Discord webhook payload`);
+      return c.json({ success: false, error: 'No valid message data found' });
+    }
+
+    // Use the username as the display name
+    const displayName = payload.username || 'Unknown Discord User';
+
+    // Use the user_id directly as a string
+    const userId = payload.user_id;
+
+    const text = payload.content || '';
+
+    console.log(
+      `[${timestamp}] Processing message from Discord user: ${displayName} (ID: ${payload.user_id})`
+    );
+
+    // Archive the message when the relay says where it was sent. A message that is
+    // already archived was redelivered, so it isn't counted again.
+    const { message_id: messageId, channel_id: channelId } = payload;
+    if (messageId && channelId) {
+      const isNewMessage = await recordDiscordChannelMessage(c.env.DB, {
+        ...payload,
+        message_id: messageId,
+        channel_id: channelId,
+      });
+      if (!isNewMessage) {
+        console.log(`[${timestamp}] Ignoring duplicate Discord message ${messageId}`);
+        return c.json({ success: true, message: 'Ignoring duplicate message' });
+      }
+    }
+
+    // Track the message in our database, storing the username for @username filters
+    // Payloads from older relays have no channel, so these count towards the unscoped ('') chat
+    await countUserMessage(
+      c.env.DB,
+      'discord',
+      channelId || '',
+      userId,
+      displayName,
+      text.length,
+      payload.username
+    );
+
+    console.log(`[${timestamp}] Successfully tracked message from Discord user: ${displayName}`);
+    return c.json({ success: true });
+  } catch (error) {
+    const timestamp = new Date().toISOString();
+    console.error(`[${timestamp}] Error processing Discord webhook:`, error);
+    return c.json({ success: false, error: 'Internal server error' }, 500);
+  }
+}
+
+/**
+ * Handle Discord interactions (slash commands)
+ *
+ * Every application command is acknowledged with a deferred response straight
+ * away, since Discord only waits three seconds; the command then runs in the
+ * background and edits the response when it is done.
+ *
+ * @param c - Hono context
+ * @returns HTTP response
+ */
+export async function handleDiscordInteraction(
+  c: Context<{ Bindings: CloudflareBindings }>
+): Promise<Response> {
+  try {
+    const timestamp = new Date().toISOString();
+
+    const body = await c.req.text();
+    const signature = c.req.header('X-Signature-Ed25519');
+    const signatureTimestamp = c.req.header('X-Signature-Timestamp');
+    const publicKey = c.env.DISCORD_PUBLIC_KEY;
+    const authorized =
+      publicKey && signature && signatureTimestamp
+        ? await verifyEd25519Signature(publicKey, body, signature, signatureTimestamp)
+        : !publicKey && Boolean(c.env.DEV_MODE);
+
+    // Discord checks that invalid signatures are rejected before it accepts the endpoint
+    if (!authorized) {
+      console.warn(`[${timestamp}] Rejected Discord interaction with invalid signature`);
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const interaction: DiscordInteraction = JSON.parse(body);
+
+    if (interaction.type === DISCORD_INTERACTION_PING) {
+      return c.json({ type: DISCORD_RESPONSE_PONG });
+    }
+
+    if (interaction.type !== DISCORD_INTERACTION_APPLICATION_COMMAND || !interaction.data) {
+      console.log(
+        `[${timestamp}] Ignoring unsupported Discord interaction type ${interaction.type}`
+      );
+      return c.json({ success: false, error: 'Unsupported interaction type' }, 400);
+    }
+
+    const command = findCommand(interaction.data.name);
+    if (!command || !isCommandOnPlatform(command, 'discord')) {
+      return c.json({
+        type: DISCORD_RESPONSE_CHANNEL_MESSAGE,
+        data: { content: `Unknown command /${interaction.data.name}.` },
+      });
+    }
+
+    // Slash commands take their arguments as one string, parsed the same way as on Telegram
+    const option = interaction.data.options?.find(opt => opt.name === DISCORD_ARGS_OPTION);
+    const argsText = typeof option?.value === 'string' ? option.value.trim() : '';
+    const parsed = { name: command.name, args: tokenizeArguments(argsText), argsText };
+
+    console.log(
+      `[${timestamp}] Received Discord /${command.name} in channel ${interaction.channel_id}`
+    );
+
+    const ctx = createDiscordCommandContext(c, interaction);
+    c.executionCtx.waitUntil(
+      dispatchCommand(ctx, command, parsed).catch(error =>
+        console.error(`[${timestamp}] Error processing Discord command ${command.name}:`, error)
+      )
+    );
+
+    // Commands meant for private chats, such as /link with its code, are answered privately
+    // in servers too, which also hides the arguments from everyone else in the channel
+    const isPrivateCommand = !command.chatTypes.includes('guild');
+    return c.json({
+      type: DISCORD_RESPONSE_DEFERRED_CHANNEL_MESSAGE,
+      data: isPrivateCommand ? { flags: DISCORD_MESSAGE_FLAG_EPHEMERAL } : undefined,
+    });
+  } catch (error) {
+    const timestamp = new Date().toISOString();
+    console.error(`[${timestamp}] Error processing Discord interaction:`, error);
+    return c.json({ success: false, error: 'Internal server error' }, 500);
+  }
+}
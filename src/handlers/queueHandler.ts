@@ -0,0 +1,24 @@
+import { runSummaryJob, SummaryJob } from '../commands/summary';
+
+/**
+ * Handle batches from the queues configured in wrangler.jsonc
+ *
+ * Only SUMMARY_QUEUE is consumed. Jobs report their own failures in the chat,
+ * so every message is acknowledged and never retried.
+ *
+ * @param batch - Batch of queued summaries
+ * @param env - Worker bindings
+ */
+export async function handleQueue(
+  batch: MessageBatch<SummaryJob>,
+  env: CloudflareBindings
+): Promise<void> {
+  console.log(
+    `[${new Date().toISOString()}] Processing ${batch.messages.length} jobs from ${batch.queue}`
+  );
+
+  for (const message of batch.messages) {
+    await runSummaryJob(env, message.body);
+    message.ack();
+  }
+}
@@ -0,0 +1,189 @@
+import { generateChatSummary, WINDOW_SUMMARY_MESSAGE_LIMIT } from '../commands/summary';
+import {
+  claimDigestWindow,
+  completeDigestWindow,
+  DigestFrequency,
+  DigestSubscription,
+  listDigestSubscriptions,
+  releaseDigestWindow,
+} from '../utils/digest-helpers';
+import { fetchRecentMessages, sendTelegramMessage } from '../utils/telegram-helpers';
+import { createTelegramClient } from '../utils/telegram-client';
+import { runRetention } from '../utils/retention-helpers';
+import { pruneCommandUsage } from '../utils/rate-limit-helpers';
+import { pruneSummaryCache } from '../utils/summary-cache-helpers';
+import { getChatSettings } from '../utils/settings-helpers';
+import { createAiTextClient } from '../utils/ai-client';
+
+const DAY_MS = 86400000;
+
+// Past windows that are still posted when an earlier run missed them or failed to post them.
+// Digests of older windows are dropped.
+const DIGEST_CATCH_UP_WINDOWS = 3;
+
+/**
+ * Summarize one digest window and post it to the subscribed chat or topic
+ *
+ * The window is claimed first, so a retried cron run skips windows that were
+ * already posted. If posting fails the claim is released, and a later run
+ * catches the window up, see runDigests.
+ *
+ * @param env - Worker bindings
+ * @param subscription - Digest subscription
+ * @param windowStart - Start of the window (inclusive)
+ * @param windowEnd - End of the window (exclusive)
+ */
+async function postDigest(
+  env: CloudflareBindings,
+  subscription: DigestSubscription,
+  windowStart: Date,
+  windowEnd: Date
+): Promise<void> {
+  const timestamp = new Date().toISOString();
+  const start = windowStart.toISOString();
+  const end = windowEnd.toISOString();
+  const chatId = subscription.chat_id;
+  const threadId = subscription.message_thread_id || undefined;
+
+  const claimed = await claimDigestWindow(env.DB, subscription, start, end);
+  if (!claimed) {
+    console.log(`[${timestamp}] Digest for chat ${chatId} (${start}) was already handled`);
+    return;
+  }
+
+  try {
+    const messages = await fetchRecentMessages(
+      env.DB,
+      chatId,
+      WINDOW_SUMMARY_MESSAGE_LIMIT,
+      threadId,
+      {
+        since: start,
+        until: end,
+      }
+    );
+
+    if (messages.length < subscription.min_messages) {
+      console.log(
+        `[${timestamp}] Skipping digest for chat ${chatId}: ${messages.length} messages, need ${subscription.min_messages}`
+      );
+      await completeDigestWindow(env.DB, subscription, start, 'skipped');
+      return;
+    }
+
+    const settings = await getChatSettings(env.DB, chatId);
+    const summary = await generateChatSummary(
+      '',
+      messages,
+      createAiTextClient(env, settings?.summary_model),
+      'telegram'
+    );
+    const formatDay = (date: Date) =>
+      date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+    const period =
+      subscription.frequency === 'daily'
+        ? formatDay(windowStart)
+        : `${formatDay(windowStart)} – ${formatDay(new Date(windowEnd.getTime() - DAY_MS))}`;
+    const title = subscription.frequency === 'daily' ? 'Daily Digest' : 'Weekly Digest';
+
+    // Throws if Telegram rejects the digest, so the window is released and retried
+    await sendTelegramMessage(
+      createTelegramClient(env),
+      chatId,
+      `<b>🗞 ${title}</b> (${period})\n\n${summary}`,
+      threadId
+    );
+
+    await completeDigestWindow(env.DB, subscription, start, 'posted');
+    console.log(`[${timestamp}] Posted ${subscription.frequency} digest to chat ${chatId}`);
+  } catch (error) {
+    console.error(`[${timestamp}] Error posting digest to chat ${chatId}:`, error);
+    await releaseDigestWindow(env.DB, subscription, start);
+  }
+}
+
+/**
+ * Post the daily digests for the UTC days before `now`, and the weekly digests
+ * for the Monday-to-Monday weeks before it
+ *
+ * Besides the latest window, the few before it are caught up if they were never
+ * posted, e.g. because a run crashed or Telegram rejected the digest. Windows
+ * that ended before the chat subscribed are left out.
+ *
+ * @param env - Worker bindings
+ * @param now - Time the cron was scheduled for
+ */
+async function runDigests(env: CloudflareBindings, now: Date): Promise<void> {
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const lastMonday = new Date(today.getTime() - ((today.getUTCDay() + 6) % 7) * DAY_MS);
+
+  const jobs: Array<{ frequency: DigestFrequency; days: number; latestEnd: Date }> = [
+    { frequency: 'daily', days: 1, latestEnd: today },
+    { frequency: 'weekly', days: 7, latestEnd: lastMonday },
+  ];
+
+  for (const { frequency, days, latestEnd } of jobs) {
+    const subscriptions = await listDigestSubscriptions(env.DB, frequency);
+
+    // One at a time to stay well within the AI binding's concurrency limits, oldest window first
+    for (const subscription of subscriptions) {
+      for (let i = DIGEST_CATCH_UP_WINDOWS - 1; i >= 0; i--) {
+        const windowEnd = new Date(latestEnd.getTime() - i * days * DAY_MS);
+        if (windowEnd.toISOString() <= subscription.created_at) {
+          continue;
+        }
+        await postDigest(
+          env,
+          subscription,
+          new Date(windowEnd.getTime() - days * DAY_MS),
+          windowEnd
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Handle cron triggers configured in wrangler.jsonc
+ *
+ * @param controller - Scheduled event controller
+ * @param env - Worker bindings
+ * @param ctx - Execution context
+ */
+export async function handleScheduled(
+  controller: ScheduledController,
+  env: CloudflareBindings,
+  ctx: ExecutionContext
+): Promise<void> {
+  const scheduledTime = new Date(controller.scheduledTime);
+  console.log(
+    `[${new Date().toISOString()}] Running scheduled jobs for ${scheduledTime.toISOString()} (${controller.cron})`
+  );
+
+  // Digests run before pruning so a short retention never removes messages still to be summarized
+  try {
+    await runDigests(env, scheduledTime);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error running digests:`, error);
+  }
+
+  try {
+    await runRetention(env, scheduledTime);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error applying retention:`, error);
+  }
+
+  try {
+    const pruned = await pruneCommandUsage(env.DB, scheduledTime);
+    console.log(`[${new Date().toISOString()}] Pruned ${pruned} command usage rows`);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error pruning command usage:`, error);
+  }
+
+  try {
+    const pruned = await pruneSummaryCache(env.DB, scheduledTime);
+    console.log(`[${new Date().toISOString()}] Pruned ${pruned} cached summaries`);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Error pruning summary cache:`, error);
+  }
+}
@@ -1,8 +1,18 @@
 import { Context } from 'hono';
-import { TelegramUpdate } from '../types/telegram';
-import { isTelegramThreadIdInBlacklist, countUserMessage } from '../utils/db-helpers';
-import { recordTelegramChannelMessage } from '../utils/telegram-helpers';
-import { commands } from '../commands';
+import { TelegramMessage, TelegramUpdate } from '../types/telegram';
+import {
+  isTelegramThreadIdInBlacklist,
+  countUserMessage,
+  claimTelegramUpdate,
+  pruneProcessedTelegramUpdates,
+  releaseTelegramUpdate,
+  adjustUserMessageLength,
+} from '../utils/db-helpers';
+import { recordTelegramChannelMessage, recordTelegramMessageEdit } from '../utils/telegram-helpers';
+import { dispatchCommand, findCommand } from '../commands';
+import { createTelegramCommandContext } from '../commands/context';
+import { parseCommand } from '../utils/command-helpers';
+import { verifySharedSecret } from '../utils/auth-helpers';
 
 /**
  * Handle incoming telegram webhook requests
@@ -12,29 +22,82 @@ import { commands } from '../commands';
 export async function handleTelegramWebhook(
   c: Context<{ Bindings: CloudflareBindings }>
 ): Promise<Response> {
+  // Set once the update is claimed, so a failure can release it for Telegram's retry.
+  // Cleared again once a command has run or the message was counted, since a retry
+  // would repeat those.
+  let claimedUpdateId: number | undefined;
+
   try {
     const timestamp = new Date().toISOString();
     console.log(`[${timestamp}] Received Telegram webhook request`);
 
+    // Reject updates that don't carry the secret token we registered with setWebhook
+    const secretToken = c.req.header('X-Telegram-Bot-Api-Secret-Token');
+    if (!verifySharedSecret(c.env, c.env.TELEGRAM_WEBHOOK_SECRET, secretToken)) {
+      console.warn(`[${timestamp}] Rejected Telegram webhook with invalid secret token`);
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
     // Parse the incoming webhook data
     const update: TelegramUpdate = await c.req.json();
 
     console.log('Request body:', JSON.stringify(update, null, 2));
 
+    // Acknowledge redelivered updates without counting or running commands again.
+    // An update that fails before anything was written is released below, so
+    // Telegram's retry processes it again.
+    const isNewUpdate = await claimTelegramUpdate(c.env.DB, update.update_id);
+    if (!isNewUpdate) {
+      console.log(`[${timestamp}] Ignoring duplicate update ${update.update_id}`);
+      return c.json({ success: true, message: 'Ignoring duplicate update' });
+    }
+    claimedUpdateId = update.update_id;
+
+    // Update IDs are sequential, so this expires old records roughly once every 100 updates
+    if (update.update_id % 100 === 0) {
+      c.executionCtx.waitUntil(pruneProcessedTelegramUpdates(c.env.DB));
+    }
+
+    // Edits update the archive and length counters, but are never counted as new messages
+    const editedMessage = update.edited_message || update.edited_channel_post;
+    if (editedMessage) {
+      return await handleEditedMessage(c, editedMessage, timestamp);
+    }
+
+    // Posts in announcement channels are archived but not counted, since they have no member sender
+    if (update.channel_post) {
+      if (update.channel_post.chat.type !== 'channel') {
+        return c.json({ success: true, message: 'Ignoring non-channel post' });
+      }
+      await recordTelegramChannelMessage(c.env.DB, update.channel_post);
+      console.log(`[${timestamp}] Archived channel post from ${update.channel_post.chat.title}`);
+      return c.json({ success: true });
+    }
+
     // Early return if no new message found (we only want to count new messages)
     if (!update.message) {
-      console.log(`[${timestamp}] No new message found in the update or it's an edited message`);
+      console.log(`[${timestamp}] No new message found in the update`);
       return c.json({ success: true, message: 'Ignoring non-new messages' });
     }
 
     // Only use regular new messages
     const message = update.message;
 
-    // Check if this is a private message with a /link command
-    const isLinkCommand = message.text?.startsWith('/link');
+    // Channel posts Telegram copies into the linked discussion group are already archived
+    // from the channel itself, and they weren't written by a member
+    if (message.is_automatic_forward) {
+      console.log(`[${timestamp}] Ignoring automatic forward from the linked channel`);
+      return c.json({ success: true, message: 'Ignoring automatic forward' });
+    }
 
-    // Only count/process messages from supergroups (avoid DMs), except for /link commands
-    if (message.chat.type !== 'supergroup' && !isLinkCommand && !c.env.DEV_MODE) {
+    // Work out whether the message is a command for this bot
+    const parsedCommand = message.text
+      ? parseCommand(message.text, c.env.TELEGRAM_BOT_USERNAME)
+      : null;
+    const command = parsedCommand ? findCommand(parsedCommand.name) : undefined;
+
+    // Only count/process messages from supergroups (avoid DMs), except for commands
+    if (message.chat.type !== 'supergroup' && !command && !c.env.DEV_MODE) {
       console.log(`[${timestamp}] Ignoring message from non-supergroup chat: ${message.chat.type}`);
       return c.json({
         success: true,
@@ -42,15 +105,6 @@ export async function handleTelegramWebhook(
       });
     }
 
-    // For private messages, only process /link commands
-    if (message.chat.type === 'private' && !isLinkCommand && !c.env.DEV_MODE) {
-      console.log(`[${timestamp}] Ignoring non-link command in private chat`);
-      return c.json({
-        success: true,
-        message: 'Only /link command is supported in private messages',
-      });
-    }
-
     // Don't count service messages (join/leave, group title changes, etc.)
     if (
       message.new_chat_member ||
@@ -70,36 +124,12 @@ export async function handleTelegramWebhook(
     }
 
     // Use wrangler environment variables (.dev.vars)
-    const botToken = c.env.TELEGRAM_BOT_TOKEN;
-
-    if (botToken && message.text) {
-      for (const command of commands) {
-        if (command.isMatch(message.text)) {
-          try {
-            // Special handling for /link command in supergroups - don't process, just warn
-            if (command.name === 'link' && message.chat.type === 'supergroup') {
-              const { sendTelegramMessage } = await import('../utils/telegram-helpers');
-              await sendTelegramMessage(
-                botToken,
-                message.chat.id.toString(),
-                '🔒 For security reasons, the /link command can only be used in private messages with the bot. Please send me a direct message to link your account.',
-                message.message_thread_id?.toString(),
-                message.message_id
-              );
-              break;
-            }
-
-            // For private messages with /link command, process immediately instead of using waitUntil
-            if (message.chat.type === 'private' && command.name === 'link') {
-              await command.process(c, message, botToken);
-            } else {
-              c.executionCtx.waitUntil(command.process(c, message, botToken));
-            }
-          } catch (commandError) {
-            console.error(`[${timestamp}] Error processing command ${command.name}:`, commandError);
-          }
-          break; // Exit loop once a command is matched
-        }
+    if (c.env.TELEGRAM_BOT_TOKEN && command && parsedCommand) {
+      claimedUpdateId = undefined;
+      try {
+        await dispatchCommand(createTelegramCommandContext(c, message), command, parsedCommand);
+      } catch (commandError) {
+        console.error(`[${timestamp}] Error processing command ${command.name}:`, commandError);
       }
     }
 
@@ -136,10 +166,13 @@ export async function handleTelegramWebhook(
       await countUserMessage(
         c.env.DB,
         'telegram',
+        message.chat.id.toString(),
         message.from.id.toString(),
         displayName,
-        text.length
+        text.length,
+        message.from.username
       );
+      claimedUpdateId = undefined;
 
       console.log(`[${timestamp}] Successfully counted message from user: ${displayName}`);
 
@@ -147,6 +180,7 @@ export async function handleTelegramWebhook(
       if (message.message_thread_id) {
         const isBlacklisted = await isTelegramThreadIdInBlacklist(
           c.env.DB,
+          message.chat.id.toString(),
           message.message_thread_id.toString()
         );
         if (isBlacklisted) {
@@ -170,6 +204,66 @@ export async function handleTelegramWebhook(
   } catch (error) {
     const timestamp = new Date().toISOString();
     console.error(`[${timestamp}] Error processing webhook:`, error);
+
+    if (claimedUpdateId !== undefined) {
+      await releaseTelegramUpdate(c.env.DB, claimedUpdateId).catch(releaseError =>
+        console.error(`[${timestamp}] Error releasing update ${claimedUpdateId}:`, releaseError)
+      );
+    }
+
     return c.json({ success: false, error: 'Internal server error' }, 500);
   }
 }
+
+/**
+ * Handle an edited supergroup message or channel post
+ *
+ * Updates the archived text and keeps the previous version in the edit history.
+ * For supergroup messages the sender's message length is also adjusted for the
+ * day the message was sent.
+ *
+ * @param c - Hono context
+ * @param message - The edited Telegram message
+ * @param timestamp - Timestamp of the webhook request, for logging
+ * @returns HTTP response
+ */
+async function handleEditedMessage(
+  c: Context<{ Bindings: CloudflareBindings }>,
+  message: TelegramMessage,
+  timestamp: string
+): Promise<Response> {
+  if (message.chat.type === 'channel') {
+    await recordTelegramMessageEdit(c.env.DB, message);
+    return c.json({ success: true });
+  }
+
+  if (
+    message.chat.type !== 'supergroup' ||
+    !message.from ||
+    message.from.is_bot ||
+    message.is_automatic_forward
+  ) {
+    console.log(
+      `[${timestamp}] Ignoring edited message outside a supergroup, from a bot or forwarded from a channel`
+    );
+    return c.json({ success: true, message: 'Ignoring edited message' });
+  }
+
+  const edit = await recordTelegramMessageEdit(c.env.DB, message);
+
+  if (edit && edit.lengthDelta !== 0) {
+    await adjustUserMessageLength(
+      c.env.DB,
+      'telegram',
+      message.chat.id.toString(),
+      message.from.id.toString(),
+      edit.messageDate.split('T')[0],
+      edit.lengthDelta
+    );
+    console.log(
+      `[${timestamp}] Adjusted message length by ${edit.lengthDelta} for user ${message.from.id}`
+    );
+  }
+
+  return c.json({ success: true });
+}
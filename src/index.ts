@@ -1,7 +1,21 @@
 import { Hono } from 'hono';
-import { DiscordWebhookPayload } from './types/discord';
 import { handleTelegramWebhook } from './handlers/telegramHandler';
-import { countUserMessage } from './utils/db-helpers';
+import { handleDiscordInteraction, handleDiscordWebhook } from './handlers/discordHandler';
+import {
+  handleLeaderboardApi,
+  handleLinkedUserStatsApi,
+  handleUserStatsApi,
+} from './handlers/apiHandler';
+import { requireApiKey } from './utils/auth-helpers';
+import {
+  handleRemoveLegacyBlacklistTopic,
+  handleSetDiscordCommands,
+  handleSetTelegramCommands,
+  handleSetTelegramWebhook,
+} from './handlers/adminHandler';
+import { handleScheduled } from './handlers/scheduledHandler';
+import { handleQueue } from './handlers/queueHandler';
+import { SummaryJob } from './commands/summary';
 
 const app = new Hono<{ Bindings: CloudflareBindings }>();
 
@@ -13,42 +27,26 @@ app.get('/', c => {
 app.post('/telegram/webhook', handleTelegramWebhook);
 
 // Handle Discord webhook requests
-app.post('/discord/webhook', async c => {
-  try {
-    const timestamp = new Date().toISOString();
-    console.log(`[${timestamp}] Received Discord webhook request`);
-
-    // Parse the incoming webhook data
-    const payload: DiscordWebhookPayload = await c.req.json();
-
-    // Early return if no message data or user ID found
-    if (!payload || !payload.username || !payload.user_id) {
-      console.log(`[${timestamp}] No valid message data found in the Discord webhook payload`);
-      return c.json({ success: false, error: 'No valid message data found' });
-    }
-
-    // Use the username as the display name
-    const displayName = payload.username || 'Unknown Discord User';
-
-    // Use the user_id directly as a string
-    const userId = payload.user_id;
-
-    const text = payload.content || '';
-
-    console.log(
-      `[${timestamp}] Processing message from Discord user: ${displayName} (ID: ${payload.user_id})`
-    );
-
-    // Track the message in our database
-    await countUserMessage(c.env.DB, 'discord', userId, displayName, text.length);
-
-    console.log(`[${timestamp}] Successfully tracked message from Discord user: ${displayName}`);
-    return c.json({ success: true });
-  } catch (error) {
-    const timestamp = new Date().toISOString();
-    console.error(`[${timestamp}] Error processing Discord webhook:`, error);
-    return c.json({ success: false, error: 'Internal server error' }, 500);
-  }
-});
-
-export default app;
+app.post('/discord/webhook', handleDiscordWebhook);
+
+// Handle Discord slash commands
+app.post('/discord/interactions', handleDiscordInteraction);
+
+// Read-only stats API for khmercoder.com, authenticated with the API_KEY secret
+app.use('/api/*', requireApiKey());
+app.get('/api/leaderboard', handleLeaderboardApi);
+app.get('/api/users/:platform/:userId/stats', handleUserStatsApi);
+app.get('/api/linked/:linkedUserId/stats', handleLinkedUserStatsApi);
+
+// Admin endpoints, authenticated with the ADMIN_API_KEY secret
+app.use('/admin/*', requireApiKey('ADMIN_API_KEY'));
+app.post('/admin/telegram/webhook', handleSetTelegramWebhook);
+app.post('/admin/telegram/commands', handleSetTelegramCommands);
+app.post('/admin/discord/commands', handleSetDiscordCommands);
+app.delete('/admin/telegram/blacklist/:threadId', handleRemoveLegacyBlacklistTopic);
+
+export default {
+  fetch: app.fetch,
+  scheduled: handleScheduled,
+  queue: handleQueue,
+} satisfies ExportedHandler<CloudflareBindings, SummaryJob>;
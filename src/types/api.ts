@@ -0,0 +1,75 @@
+// Types for the read-only stats API consumed by khmercoder.com
+
+/**
+ * Envelope shared by every API response
+ */
+export type ApiResponse<T> = { success: true; data: T } | { success: false; error: string };
+
+export interface ApiPagination {
+  page: number;
+  limit: number;
+  has_more: boolean;
+}
+
+export interface ApiDateRange {
+  from: string | null;
+  to: string | null;
+}
+
+export interface ApiLeaderboardEntry {
+  rank: number;
+  platform: string;
+  user_id: string;
+  linked_user_id: string | null;
+  display_name: string;
+  message_count: number;
+  message_length: number;
+}
+
+export interface ApiLeaderboard {
+  metric: 'messages' | 'length';
+  merge_linked: boolean;
+  chat_id: string | null;
+  range: ApiDateRange;
+  entries: ApiLeaderboardEntry[];
+  pagination: ApiPagination;
+}
+
+export interface ApiDailyActivity {
+  date: string;
+  message_count: number;
+  message_length: number;
+}
+
+export interface ApiTotals {
+  message_count: number;
+  message_length: number;
+}
+
+export interface ApiAccount {
+  platform: string;
+  user_id: string;
+  display_name: string;
+}
+
+export interface ApiUserStats {
+  account: ApiAccount;
+  linked_user_id: string | null;
+  merge_linked: boolean;
+  chat_id: string | null;
+  range: ApiDateRange;
+  totals: ApiTotals;
+  rank: number | null;
+  daily: ApiDailyActivity[];
+  pagination: ApiPagination;
+}
+
+export interface ApiLinkedUserStats {
+  linked_user_id: string;
+  chat_id: string | null;
+  range: ApiDateRange;
+  accounts: Array<ApiAccount & { totals: ApiTotals }>;
+  totals: ApiTotals;
+  daily: ApiDailyActivity[];
+  pagination: ApiPagination;
+}
@@ -24,4 +24,77 @@ export interface DiscordWebhookPayload {
   content: string;
   avatar_url: string;
   embeds?: Embed[];
+  // Where the message was sent; older relays omit these, and their messages are counted but not archived
+  message_id?: string;
+  channel_id?: string;
+  guild_id?: string;
+  // ISO timestamp of the message, defaults to when the webhook is received
+  timestamp?: string;
+}
+
+/**
+ * Discord user object, as sent with interactions
+ */
+export interface DiscordUser {
+  id: string;
+  username: string;
+  global_name?: string | null;
+  bot?: boolean;
+}
+
+/**
+ * Guild member object, as sent with interactions in a server
+ */
+export interface DiscordGuildMember {
+  user: DiscordUser;
+  nick?: string | null;
+  // Permission bit set of the member in the channel, as a decimal string
+  permissions: string;
+}
+
+/**
+ * Option value of an application command interaction
+ */
+export interface DiscordInteractionOption {
+  name: string;
+  type: number;
+  value?: string | number | boolean;
+}
+
+// Interaction types, see https://discord.com/developers/docs/interactions/receiving-and-responding
+export const DISCORD_INTERACTION_PING = 1;
+export const DISCORD_INTERACTION_APPLICATION_COMMAND = 2;
+
+// Interaction callback types
+export const DISCORD_RESPONSE_PONG = 1;
+export const DISCORD_RESPONSE_CHANNEL_MESSAGE = 4;
+export const DISCORD_RESPONSE_DEFERRED_CHANNEL_MESSAGE = 5;
+
+// Message flag that shows a response only to the member who used the command
+export const DISCORD_MESSAGE_FLAG_EPHEMERAL = 64;
+
+// Application command option type for strings
+export const DISCORD_OPTION_STRING = 3;
+// Every slash command takes its arguments as one string option with this name
+export const DISCORD_ARGS_OPTION = 'args';
+
+/**
+ * Interaction sent to the /discord/interactions endpoint
+ */
+export interface DiscordInteraction {
+  id: string;
+  application_id: string;
+  type: number;
+  token: string;
+  data?: {
+    id: string;
+    name: string;
+    options?: DiscordInteractionOption[];
+  };
+  guild_id?: string;
+  channel_id?: string;
+  // Set for interactions in a server
+  member?: DiscordGuildMember;
+  // Set for interactions in direct messages
+  user?: DiscordUser;
 }
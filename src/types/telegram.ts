@@ -16,13 +16,18 @@ export interface TelegramChat {
   first_name?: string;
   last_name?: string;
   is_forum?: boolean;
+  linked_chat_id?: number;
 }
 
 export interface TelegramMessage {
   message_id: number;
   from?: TelegramUser;
+  sender_chat?: TelegramChat;
+  author_signature?: string;
+  is_automatic_forward?: boolean;
   chat: TelegramChat;
   date: number;
+  edit_date?: number;
   text?: string;
   message_thread_id?: number;
   photo?: Array<{
@@ -77,3 +82,73 @@ export interface TelegramUpdate {
   channel_post?: TelegramMessage;
   edited_channel_post?: TelegramMessage;
 }
+
+// Types for Bot API requests and responses, see utils/telegram-client.ts
+export type TelegramChatId = string | number;
+
+export interface TelegramApiResponse<T> {
+  ok: boolean;
+  result?: T;
+  error_code?: number;
+  description?: string;
+  parameters?: {
+    migrate_to_chat_id?: number;
+    retry_after?: number;
+  };
+}
+
+export interface TelegramChatMember {
+  user: TelegramUser;
+  status: string;
+}
+
+export interface TelegramBotCommand {
+  command: string;
+  description: string;
+}
+
+export type TelegramBotCommandScope =
+  | { type: 'default' | 'all_private_chats' | 'all_group_chats' | 'all_chat_administrators' }
+  | { type: 'chat' | 'chat_administrators'; chat_id: TelegramChatId }
+  | { type: 'chat_member'; chat_id: TelegramChatId; user_id: number };
+
+export interface TelegramSendMessageParams {
+  chat_id: TelegramChatId;
+  text: string;
+  message_thread_id?: TelegramChatId;
+  parse_mode?: 'HTML' | 'MarkdownV2';
+  reply_to_message_id?: number;
+  allow_sending_without_reply?: boolean;
+  disable_notification?: boolean;
+  link_preview_options?: { is_disabled?: boolean };
+}
+
+export interface TelegramEditMessageTextParams {
+  chat_id: TelegramChatId;
+  message_id: number;
+  text: string;
+  parse_mode?: 'HTML' | 'MarkdownV2';
+  link_preview_options?: { is_disabled?: boolean };
+}
+
+export interface TelegramDeleteMessageParams {
+  chat_id: TelegramChatId;
+  message_id: number;
+}
+
+export interface TelegramSendChatActionParams {
+  chat_id: TelegramChatId;
+  action: 'typing' | 'upload_photo' | 'upload_document';
+  message_thread_id?: TelegramChatId;
+}
+
+export interface TelegramSetMyCommandsParams {
+  commands: TelegramBotCommand[];
+  scope?: TelegramBotCommandScope;
+}
+
+export interface TelegramSetWebhookParams {
+  url: string;
+  secret_token?: string;
+  allowed_updates?: string[];
+}
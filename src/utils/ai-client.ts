@@ -0,0 +1,236 @@
+// Workers AI text generation with an ordered chain of fallback models
+import { readAiTextStream } from './ai-helpers';
+
+const DEFAULT_GATEWAY_ID = 'khmercoders-bot-summary-gw';
+
+// Time budget for the AI calls made while a webhook request is kept alive with
+// waitUntil, which lasts about 30 seconds after the response; the rest is left
+// for reading the messages and posting the answer
+export const REQUEST_AI_DEADLINE_MS = 20000;
+
+export interface AiModelConfig {
+  // Workers AI model ID
+  id:
+    | '@cf/meta/llama-3.3-70b-instruct-fp8-fast'
+    | '@cf/meta/llama-3.1-8b-instruct-fp8'
+    | '@cf/meta/llama-3.2-3b-instruct';
+  description: string;
+  // Time allowed for the whole answer, streamed or not, before the next model is tried.
+  // Clients with a deadline cut it down to fit, see AiTextClient.generate.
+  timeoutMs: number;
+}
+
+// Models that can be chosen for a chat, by the short name used in /model and AI_MODELS
+export const AI_MODELS = {
+  'llama-3.3-70b': {
+    id: '@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+    description: 'Llama 3.3 70B, best quality',
+    timeoutMs: 60000,
+  },
+  'llama-3.1-8b': {
+    id: '@cf/meta/llama-3.1-8b-instruct-fp8',
+    description: 'Llama 3.1 8B, faster and cheaper',
+    timeoutMs: 30000,
+  },
+  'llama-3.2-3b': {
+    id: '@cf/meta/llama-3.2-3b-instruct',
+    description: 'Llama 3.2 3B, smallest',
+    timeoutMs: 20000,
+  },
+} satisfies Record<string, AiModelConfig>;
+
+export type AiModelName = keyof typeof AI_MODELS;
+
+// Tried in order when AI_MODELS is not set
+const DEFAULT_MODEL_CHAIN: AiModelName[] = ['llama-3.3-70b', 'llama-3.1-8b'];
+
+export type AiChatMessage = { role: string; content: string };
+
+export interface AiTextResult {
+  text: string;
+  // Name of the model that produced the text
+  model: AiModelName;
+}
+
+/**
+ * Check whether a name is one of the models in AI_MODELS
+ *
+ * @param name - Model name
+ * @returns boolean
+ */
+export function isAiModelName(name: string): name is AiModelName {
+  return Object.prototype.hasOwnProperty.call(AI_MODELS, name);
+}
+
+/**
+ * Workers AI client that falls back to the next model when one fails or times out
+ */
+export class AiTextClient {
+  /**
+   * @param ai - Cloudflare AI instance
+   * @param models - Model names in the order they are tried
+   * @param gatewayId - AI Gateway the requests go through
+   * @param deadline - Optional time (ms since the epoch) by which every answer has to be done
+   */
+  constructor(
+    private readonly ai: Ai<AiModels>,
+    readonly models: AiModelName[],
+    private readonly gatewayId: string = DEFAULT_GATEWAY_ID,
+    private readonly deadline?: number
+  ) {}
+
+  /**
+   * Generate an answer with the first model in the chain that succeeds
+   *
+   * A model that times out keeps running in the background, but its partial
+   * answers are no longer passed to `onText`. When a later model takes over,
+   * `onText` starts again from that model's first tokens.
+   *
+   * With a deadline, each model gets at most an equal share of the time left
+   * for the models still to be tried, so a slow first model can't use up the
+   * time of its fallbacks. No model is started once the deadline has passed.
+   *
+   * @param label - What the answer is for, used in the logs
+   * @param messages - System and user messages
+   * @param onText - Optional callback for the partial answer; when given, the answer is streamed
+   * @returns Promise<AiTextResult> - The answer and the model that produced it
+   */
+  async generate(
+    label: string,
+    messages: AiChatMessage[],
+    onText?: (text: string) => void
+  ): Promise<AiTextResult> {
+    const timestamp = new Date().toISOString();
+
+    for (const [index, name] of this.models.entries()) {
+      const model = AI_MODELS[name];
+      const remainingMs = this.deadline === undefined ? Infinity : this.deadline - Date.now();
+      if (remainingMs <= 0) {
+        console.error(`[${timestamp}] AI ${label} ran out of time before trying ${name}`);
+        break;
+      }
+      const timeoutMs = Math.min(
+        model.timeoutMs,
+        Math.floor(remainingMs / (this.models.length - index))
+      );
+
+      const controller = new AbortController();
+      const started = Date.now();
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      try {
+        const text = await Promise.race([
+          this.run(
+            model,
+            messages,
+            onText && (partial => !controller.signal.aborted && onText(partial)),
+            controller.signal
+          ),
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(
+              () => reject(new Error(`Timed out after ${timeoutMs}ms`)),
+              timeoutMs
+            );
+          }),
+        ]);
+
+        console.log(
+          `[${timestamp}] AI ${label} generated by ${name} in ${Date.now() - started}ms${
+            index > 0 ? ` (after ${index} failed model${index === 1 ? '' : 's'})` : ''
+          }`
+        );
+        return { text, model: name };
+      } catch (error) {
+        console.error(
+          `[${timestamp}] AI ${label} failed with ${name} after ${Date.now() - started}ms:`,
+          error
+        );
+      } finally {
+        clearTimeout(timer);
+        controller.abort();
+      }
+    }
+
+    throw new Error(`All ${this.models.length} models failed to generate the ${label}`);
+  }
+
+  /**
+   * Run one model and return its answer
+   *
+   * @param model - Model to run
+   * @param messages - System and user messages
+   * @param onText - Optional callback for the partial answer
+   * @param signal - Stops reading a streamed answer once aborted
+   * @returns Promise<string> - The model's answer
+   */
+  private async run(
+    model: AiModelConfig,
+    messages: AiChatMessage[],
+    onText: ((text: string) => void) | undefined,
+    signal: AbortSignal
+  ): Promise<string> {
+    const response: AiTextGenerationOutput = await this.ai.run(
+      model.id,
+      {
+        messages,
+        stream: Boolean(onText),
+      },
+      {
+        gateway: {
+          id: this.gatewayId,
+        },
+      }
+    );
+
+    const text =
+      response instanceof ReadableStream
+        ? await readAiTextStream(response, onText, signal)
+        : response?.response;
+
+    if (!text) {
+      throw new Error('Empty answer');
+    }
+    return text;
+  }
+}
+
+/**
+ * Create an AI client from the worker's bindings
+ *
+ * The chain is AI_MODELS (comma-separated model names), or the default chain
+ * when it's not set. A chat's preferred model is tried first, followed by the
+ * rest of the chain.
+ *
+ * @param env - Worker bindings
+ * @param preferredModel - Model chosen for the chat with /model, if any
+ * @param deadlineMs - Optional time budget for everything the client generates, counted from now
+ * @returns AiTextClient using AI and AI_GATEWAY_ID
+ */
+export function createAiTextClient(
+  env: CloudflareBindings,
+  preferredModel?: string | null,
+  deadlineMs?: number
+): AiTextClient {
+  const configured = (env.AI_MODELS || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  const unknown = configured.filter(name => !isAiModelName(name));
+  if (unknown.length > 0) {
+    console.warn(`[${new Date().toISOString()}] Ignoring unknown AI_MODELS: ${unknown.join(', ')}`);
+  }
+
+  const chain = configured.filter(isAiModelName);
+  const models = [
+    ...(preferredModel && isAiModelName(preferredModel) ? [preferredModel] : []),
+    ...(chain.length > 0 ? chain : DEFAULT_MODEL_CHAIN),
+  ];
+
+  return new AiTextClient(
+    env.AI,
+    [...new Set(models)],
+    env.AI_GATEWAY_ID || undefined,
+    deadlineMs === undefined ? undefined : Date.now() + deadlineMs
+  );
+}
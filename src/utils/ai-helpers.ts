@@ -0,0 +1,58 @@
+// Helpers for calling Cloudflare Workers AI
+
+/**
+ * Read a streamed text generation answer
+ *
+ * Workers AI streams server-sent events: one `data: {"response": "..."}` line per
+ * batch of tokens, ending with `data: [DONE]`.
+ *
+ * @param stream - Stream returned by ai.run with `stream: true`
+ * @param onText - Called with the text generated so far whenever it grows
+ * @param signal - Optional signal that stops reading, returning the text so far
+ * @returns Promise<string> - The whole answer
+ */
+export async function readAiTextStream(
+  stream: ReadableStream<Uint8Array>,
+  onText?: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  signal?.addEventListener('abort', () => reader.cancel().catch(() => {}), { once: true });
+  let buffer = '';
+  let text = '';
+
+  const handleLine = (line: string) => {
+    const match = /^data:\s*(.*)$/.exec(line.trim());
+    if (!match || !match[1] || match[1] === '[DONE]') {
+      return;
+    }
+
+    let event: { response?: string };
+    try {
+      event = JSON.parse(match[1]);
+    } catch {
+      console.error('Ignoring malformed AI stream event:', match[1]);
+      return;
+    }
+
+    if (event.response) {
+      text += event.response;
+      onText?.(text);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+
+  handleLine(buffer);
+  return text;
+}
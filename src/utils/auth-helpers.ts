@@ -0,0 +1,149 @@
+// Authentication helpers for HTTP routes
+import { MiddlewareHandler } from 'hono';
+
+/**
+ * Compare two strings in constant time to avoid leaking secrets through timing
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns boolean - true if the strings are equal
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+
+  // Still walk the full input when lengths differ so the comparison time doesn't depend on it
+  let mismatch = left.length === right.length ? 0 : 1;
+  for (let i = 0; i < left.length; i++) {
+    mismatch |= left[i] ^ (right[i % Math.max(right.length, 1)] ?? 0);
+  }
+  return mismatch === 0;
+}
+
+/**
+ * Check a secret supplied by a caller against the configured one
+ *
+ * Unset secrets are only tolerated in DEV_MODE so local testing keeps working.
+ *
+ * @param env - Worker bindings
+ * @param expected - Configured secret, may be empty
+ * @param provided - Secret sent with the request
+ * @returns boolean - true if the request may proceed
+ */
+export function verifySharedSecret(
+  env: CloudflareBindings,
+  expected: string | undefined,
+  provided: string | undefined
+): boolean {
+  if (!expected) {
+    return Boolean(env.DEV_MODE);
+  }
+  return provided !== undefined && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Verify a hex-encoded HMAC-SHA256 signature of a request body
+ *
+ * @param secret - Shared signing secret
+ * @param body - Raw request body
+ * @param signature - Hex signature, optionally prefixed with 'sha256='
+ * @returns Promise<boolean> - true if the signature matches
+ */
+export async function verifyHmacSignature(
+  secret: string,
+  body: string,
+  signature: string
+): Promise<boolean> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  const expected = [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+
+  return timingSafeEqual(signature.replace(/^sha256=/, '').toLowerCase(), expected);
+}
+
+/**
+ * Verify the Ed25519 signature Discord sends with every interaction
+ *
+ * Discord signs the timestamp header followed by the raw body.
+ *
+ * @param publicKey - Hex public key of the Discord application
+ * @param body - Raw request body
+ * @param signature - Hex signature from the X-Signature-Ed25519 header
+ * @param timestamp - Value of the X-Signature-Timestamp header
+ * @returns Promise<boolean> - true if the signature is valid
+ */
+export async function verifyEd25519Signature(
+  publicKey: string,
+  body: string,
+  signature: string,
+  timestamp: string
+): Promise<boolean> {
+  const fromHex = (hex: string) =>
+    /^([0-9a-f]{2})+$/i.test(hex)
+      ? new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16)))
+      : null;
+
+  const keyBytes = fromHex(publicKey);
+  const signatureBytes = fromHex(signature);
+  if (!keyBytes || !signatureBytes) {
+    return false;
+  }
+
+  try {
+    const key = await crypto.subtle.importKey('raw', keyBytes, { name: 'Ed25519' }, false, [
+      'verify',
+    ]);
+    return await crypto.subtle.verify(
+      'Ed25519',
+      key,
+      signatureBytes,
+      new TextEncoder().encode(timestamp + body)
+    );
+  } catch (error) {
+    // Malformed keys or signatures are rejected rather than treated as server errors
+    console.warn(`[${new Date().toISOString()}] Ed25519 verification failed:`, error);
+    return false;
+  }
+}
+
+/**
+ * Middleware that requires an API key stored in a Worker secret
+ *
+ * The key is accepted as `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ *
+ * @param secretName - Binding holding the expected key
+ * @returns Hono middleware
+ */
+export function requireApiKey(
+  secretName: 'API_KEY' | 'ADMIN_API_KEY' = 'API_KEY'
+): MiddlewareHandler<{ Bindings: CloudflareBindings }> {
+  return async (c, next) => {
+    const expected = c.env[secretName];
+
+    if (!expected) {
+      console.error(
+        `[${new Date().toISOString()}] ${secretName} is not configured, rejecting request`
+      );
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const authorization = c.req.header('Authorization');
+    const provided = authorization?.startsWith('Bearer ')
+      ? authorization.slice('Bearer '.length).trim()
+      : c.req.header('X-API-Key');
+
+    if (!provided || !timingSafeEqual(provided, expected)) {
+      return c.json({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    await next();
+  };
+}
@@ -0,0 +1,82 @@
+// Helpers for parsing bot commands
+
+export interface ParsedCommand {
+  // Command name without the leading slash, lower-cased
+  name: string;
+  // Arguments split on whitespace, with quoted arguments kept together
+  args: string[];
+  // Everything after the command name, trimmed
+  argsText: string;
+}
+
+/**
+ * Split an argument string on whitespace, keeping quoted arguments together
+ *
+ * Both straight ("..." and '...') and curly (“...”) quotes are supported, since
+ * mobile keyboards often insert the latter.
+ *
+ * @param text - Argument string
+ * @returns Array of arguments with the quotes removed
+ */
+export function tokenizeArguments(text: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|“([^”]*)”|(\S+)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a message into a command
+ *
+ * Handles `/command`, `/command args` and `/command@botname args`. A command
+ * addressed to a different bot is not treated as ours.
+ *
+ * @param text - Message text
+ * @param botUsername - Our bot's username, if known; any @mention is accepted otherwise
+ * @returns ParsedCommand or null if the text isn't a command for this bot
+ */
+export function parseCommand(text: string, botUsername?: string): ParsedCommand | null {
+  const match = /^\/([a-zA-Z0-9_]{1,32})(?:@([a-zA-Z0-9_]+))?(?:\s+([\s\S]*))?$/.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, name, mention, rest = ''] = match;
+  if (
+    mention &&
+    botUsername &&
+    mention.toLowerCase() !== botUsername.replace(/^@/, '').toLowerCase()
+  ) {
+    return null;
+  }
+
+  const argsText = rest.trim();
+  return { name: name.toLowerCase(), args: tokenizeArguments(argsText), argsText };
+}
+
+/**
+ * Describe a duration for a command reply, e.g. "45 seconds" or "3 hours"
+ *
+ * @param ms - Duration in milliseconds
+ * @returns Human-readable duration, rounded up
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(1, Math.ceil(ms / 1000));
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+
+  if (seconds < 60) {
+    return plural(seconds, 'second');
+  }
+  if (seconds < 3600) {
+    return plural(Math.ceil(seconds / 60), 'minute');
+  }
+  if (seconds < 86400) {
+    return plural(Math.ceil(seconds / 3600), 'hour');
+  }
+  return plural(Math.ceil(seconds / 86400), 'day');
+}
@@ -5,17 +5,21 @@
  *
  * @param db - D1Database instance
  * @param platform - Platform identifier (e.g. 'telegram')
+ * @param chatId - Chat the message was sent in (platform-specific chat ID)
  * @param userId - User ID from the platform (string)
  * @param displayName - User's display name
  * @param messageLength - Length of the message content
+ * @param username - Optional platform username (e.g. Telegram @username without the @)
  * @returns Promise<void>
  */
 export async function countUserMessage(
   db: D1Database,
   platform: string,
+  chatId: string,
   userId: string,
   displayName: string,
-  messageLength: number
+  messageLength: number,
+  username?: string
 ): Promise<void> {
   try {
     const timestamp = new Date().toISOString();
@@ -23,16 +27,18 @@ export async function countUserMessage(
     const today = timestamp.split('T')[0];
 
     console.log(
-      `[${timestamp}] Counting message for user ${displayName} (${userId}) on ${platform}, length: ${messageLength}`
+      `[${timestamp}] Counting message for user ${displayName} (${userId}) on ${platform} chat ${chatId}, length: ${messageLength}`
     );
 
-    // First ensure the user exists in the users table
+    // First ensure the user exists in the users table and keep their username current
     await db
       .prepare(
-        `INSERT OR IGNORE INTO users (platform, user_id, display_name) 
-       VALUES (?, ?, ?)`
+        `INSERT INTO users (platform, user_id, display_name, username)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (platform, user_id)
+       DO UPDATE SET username = COALESCE(excluded.username, users.username)`
       )
-      .bind(platform, userId, displayName)
+      .bind(platform, userId, displayName, username ?? null)
       .run();
 
     console.log(`[${timestamp}] User ${displayName} existence confirmed in db`);
@@ -40,14 +46,14 @@ export async function countUserMessage(
     // Then update the message count and total message length
     await db
       .prepare(
-        `INSERT INTO chat_counter (chat_date, platform, user_id, message_count, message_length)
-       VALUES (?, ?, ?, 1, ?)
-       ON CONFLICT (chat_date, platform, user_id)
+        `INSERT INTO chat_counter (chat_date, platform, chat_id, user_id, message_count, message_length)
+       VALUES (?, ?, ?, ?, 1, ?)
+       ON CONFLICT (chat_date, platform, chat_id, user_id)
        DO UPDATE SET 
          message_count = message_count + 1,
          message_length = message_length + ?`
       )
-      .bind(today, platform, userId, messageLength, messageLength)
+      .bind(today, platform, chatId, userId, messageLength, messageLength)
       .run();
 
     console.log(`[${timestamp}] Message count and length updated for ${displayName} on ${today}`);
@@ -60,18 +66,23 @@ export async function countUserMessage(
 
 /**
  * Check if a Telegram message thread ID is in the blacklist
+ * Legacy entries without a chat ID apply to every chat.
  * @param db - D1Database instance
+ * @param chatId - Telegram chat ID
  * @param threadId - Telegram message thread ID
  * @returns Promise<boolean>
  */
 export async function isTelegramThreadIdInBlacklist(
   db: D1Database,
+  chatId: string,
   threadId: string
 ): Promise<boolean> {
   try {
     const { results } = await db
-      .prepare('SELECT 1 FROM blacklist_topic WHERE message_thread_id = ? LIMIT 1')
-      .bind(threadId)
+      .prepare(
+        "SELECT 1 FROM blacklist_topic WHERE message_thread_id = ? AND chat_id IN (?, '') LIMIT 1"
+      )
+      .bind(threadId, chatId)
       .all<{ message_thread_id: string }>();
     return results.length > 0;
   } catch (error) {
@@ -79,3 +90,265 @@ export async function isTelegramThreadIdInBlacklist(
     return false;
   }
 }
+
+/**
+ * Add a Telegram topic to a chat's blacklist
+ * @param db - D1Database instance
+ * @param chatId - Telegram chat ID
+ * @param threadId - Telegram message thread ID
+ * @param createdBy - Telegram user ID of the admin adding the entry
+ * @returns Promise<boolean> - false if the topic was already blacklisted
+ */
+export async function addTelegramThreadIdToBlacklist(
+  db: D1Database,
+  chatId: string,
+  threadId: string,
+  createdBy: string
+): Promise<boolean> {
+  const result = await db
+    .prepare(
+      `INSERT OR IGNORE INTO blacklist_topic (chat_id, message_thread_id, created_by, created_at)
+       VALUES (?, ?, ?, ?)`
+    )
+    .bind(chatId, threadId, createdBy, new Date().toISOString())
+    .run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Remove a Telegram topic from a chat's blacklist
+ *
+ * Legacy entries that apply to every chat are left alone; only an operator can
+ * remove them, see removeLegacyTelegramThreadIdFromBlacklist.
+ *
+ * @param db - D1Database instance
+ * @param chatId - Telegram chat ID
+ * @param threadId - Telegram message thread ID
+ * @returns Promise<boolean> - false if the topic wasn't blacklisted in this chat
+ */
+export async function removeTelegramThreadIdFromBlacklist(
+  db: D1Database,
+  chatId: string,
+  threadId: string
+): Promise<boolean> {
+  const result = await db
+    .prepare('DELETE FROM blacklist_topic WHERE message_thread_id = ? AND chat_id = ?')
+    .bind(threadId, chatId)
+    .run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Remove a legacy blacklist entry that applies to every chat
+ *
+ * @param db - D1Database instance
+ * @param threadId - Telegram message thread ID
+ * @returns Promise<boolean> - false if there was no legacy entry for the topic
+ */
+export async function removeLegacyTelegramThreadIdFromBlacklist(
+  db: D1Database,
+  threadId: string
+): Promise<boolean> {
+  const result = await db
+    .prepare("DELETE FROM blacklist_topic WHERE message_thread_id = ? AND chat_id = ''")
+    .bind(threadId)
+    .run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * List the blacklisted topics that apply to a chat
+ * @param db - D1Database instance
+ * @param chatId - Telegram chat ID
+ * @returns Promise<Array<{ chat_id: string; message_thread_id: string; created_at: string | null }>>
+ */
+export async function listBlacklistedTelegramThreads(
+  db: D1Database,
+  chatId: string
+): Promise<Array<{ chat_id: string; message_thread_id: string; created_at: string | null }>> {
+  const { results } = await db
+    .prepare(
+      `SELECT chat_id, message_thread_id, created_at FROM blacklist_topic
+       WHERE chat_id IN (?, '') ORDER BY CAST(message_thread_id AS INTEGER)`
+    )
+    .bind(chatId)
+    .all<{ chat_id: string; message_thread_id: string; created_at: string | null }>();
+  return results;
+}
+
+/**
+ * Find a user by their platform username
+ * @param db - D1Database instance
+ * @param platform - Platform identifier (e.g. 'telegram')
+ * @param username - Username with or without a leading '@'
+ * @returns Promise<{ user_id: string; display_name: string } | null>
+ */
+export async function findUserByUsername(
+  db: D1Database,
+  platform: string,
+  username: string
+): Promise<{ user_id: string; display_name: string } | null> {
+  try {
+    return await db
+      .prepare(
+        'SELECT user_id, display_name FROM users WHERE platform = ? AND username = ? COLLATE NOCASE LIMIT 1'
+      )
+      .bind(platform, username.replace(/^@/, ''))
+      .first<{ user_id: string; display_name: string }>();
+  } catch (error) {
+    console.error(`Error looking up user ${username} on ${platform}:`, error);
+    throw error;
+  }
+}
+
+export interface UserRecord {
+  platform: string;
+  user_id: string;
+  display_name: string;
+  username: string | null;
+  linked_user_id: string | null;
+}
+
+/**
+ * Fetch a single user record
+ * @param db - D1Database instance
+ * @param platform - Platform identifier (e.g. 'telegram')
+ * @param userId - User ID from the platform
+ * @returns Promise<UserRecord | null>
+ */
+export async function getUser(
+  db: D1Database,
+  platform: string,
+  userId: string
+): Promise<UserRecord | null> {
+  try {
+    return await db
+      .prepare(
+        'SELECT platform, user_id, display_name, username, linked_user_id FROM users WHERE platform = ? AND user_id = ?'
+      )
+      .bind(platform, userId)
+      .first<UserRecord>();
+  } catch (error) {
+    console.error(`Error fetching user ${userId} on ${platform}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch every platform account linked to the same website account
+ * @param db - D1Database instance
+ * @param linkedUserId - Website user ID stored in users.linked_user_id
+ * @returns Promise<UserRecord[]>
+ */
+export async function getLinkedAccounts(
+  db: D1Database,
+  linkedUserId: string
+): Promise<UserRecord[]> {
+  try {
+    const { results } = await db
+      .prepare(
+        'SELECT platform, user_id, display_name, username, linked_user_id FROM users WHERE linked_user_id = ? ORDER BY platform, user_id'
+      )
+      .bind(linkedUserId)
+      .all<UserRecord>();
+    return results;
+  } catch (error) {
+    console.error(`Error fetching accounts linked to ${linkedUserId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Claim a Telegram update for processing
+ *
+ * Telegram redelivers updates when the webhook is slow or fails, so the first
+ * delivery records the update_id and any later delivery is reported as a duplicate.
+ *
+ * @param db - D1Database instance
+ * @param updateId - TelegramUpdate.update_id
+ * @returns Promise<boolean> - true if this is the first time the update is seen
+ */
+export async function claimTelegramUpdate(db: D1Database, updateId: number): Promise<boolean> {
+  const result = await db
+    .prepare(
+      'INSERT OR IGNORE INTO telegram_processed_updates (update_id, processed_at) VALUES (?, ?)'
+    )
+    .bind(updateId, new Date().toISOString())
+    .run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Forget a claimed Telegram update so Telegram's redelivery is processed again
+ *
+ * @param db - D1Database instance
+ * @param updateId - TelegramUpdate.update_id
+ * @returns Promise<void>
+ */
+export async function releaseTelegramUpdate(db: D1Database, updateId: number): Promise<void> {
+  await db
+    .prepare('DELETE FROM telegram_processed_updates WHERE update_id = ?')
+    .bind(updateId)
+    .run();
+}
+
+/**
+ * Delete processed update records older than the given age
+ *
+ * @param db - D1Database instance
+ * @param maxAgeDays - How long to remember an update (Telegram gives up after 24 hours)
+ * @returns Promise<number> - Number of rows deleted
+ */
+export async function pruneProcessedTelegramUpdates(
+  db: D1Database,
+  maxAgeDays: number = 7
+): Promise<number> {
+  try {
+    const cutoff = new Date(Date.now() - maxAgeDays * 86400000).toISOString();
+    const result = await db
+      .prepare('DELETE FROM telegram_processed_updates WHERE processed_at < ?')
+      .bind(cutoff)
+      .run();
+    return result.meta.changes;
+  } catch (error) {
+    console.error(`Error pruning processed Telegram updates:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Adjust the total message length of a user without counting a new message
+ *
+ * Used when a message is edited: the counter for the day the message was sent
+ * changes by the difference in length.
+ *
+ * @param db - D1Database instance
+ * @param platform - Platform identifier (e.g. 'telegram')
+ * @param chatId - Chat the message was sent in
+ * @param userId - User ID from the platform
+ * @param chatDate - Day the original message was counted on ('YYYY-MM-DD')
+ * @param lengthDelta - Change in message length, may be negative
+ * @returns Promise<void>
+ */
+export async function adjustUserMessageLength(
+  db: D1Database,
+  platform: string,
+  chatId: string,
+  userId: string,
+  chatDate: string,
+  lengthDelta: number
+): Promise<void> {
+  try {
+    await db
+      .prepare(
+        `UPDATE chat_counter SET message_length = MAX(message_length + ?, 0)
+       WHERE chat_date = ? AND platform = ? AND chat_id = ? AND user_id = ?`
+      )
+      .bind(lengthDelta, chatDate, platform, chatId, userId)
+      .run();
+  } catch (error) {
+    const timestamp = new Date().toISOString();
+    console.error(`[${timestamp}] Error adjusting message length:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,185 @@
+// Database helpers for scheduled digest summaries
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+// A claim still pending after this long belongs to a cron run that crashed, and can be taken over
+const DIGEST_CLAIM_TIMEOUT_MS = 30 * 60000;
+
+export interface DigestSubscription {
+  chat_id: string;
+  message_thread_id: string;
+  frequency: DigestFrequency;
+  min_messages: number;
+  // ISO timestamp of the subscription, or of the last change of its frequency
+  created_at: string;
+}
+
+/**
+ * Subscribe a chat or forum topic to a digest, replacing any existing subscription
+ *
+ * Changing the frequency counts as a new subscription, so no digests are caught
+ * up for windows from before the change.
+ *
+ * @param db - D1Database instance
+ * @param chatId - Telegram chat ID
+ * @param threadId - Forum topic ID, or '' for the whole chat
+ * @param frequency - 'daily' or 'weekly'
+ * @param minMessages - Minimum messages in the window for a digest to be posted
+ * @param createdBy - Telegram user ID of the admin subscribing
+ * @returns Promise<void>
+ */
+export async function upsertDigestSubscription(
+  db: D1Database,
+  chatId: string,
+  threadId: string,
+  frequency: DigestFrequency,
+  minMessages: number,
+  createdBy: string
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO digest_subscriptions (chat_id, message_thread_id, frequency, min_messages, created_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (chat_id, message_thread_id)
+       DO UPDATE SET
+         created_at = CASE WHEN frequency = excluded.frequency THEN created_at ELSE excluded.created_at END,
+         frequency = excluded.frequency,
+         min_messages = excluded.min_messages`
+    )
+    .bind(chatId, threadId, frequency, minMessages, createdBy, new Date().toISOString())
+    .run();
+}
+
+/**
+ * Remove a digest subscription
+ *
+ * @param db - D1Database instance
+ * @param chatId - Telegram chat ID
+ * @param threadId - Forum topic ID, or '' for the whole chat
+ * @returns Promise<boolean> - false if there was no subscription
+ */
+export async function deleteDigestSubscription(
+  db: D1Database,
+  chatId: string,
+  threadId: string
+): Promise<boolean> {
+  const result = await db
+    .prepare('DELETE FROM digest_subscriptions WHERE chat_id = ? AND message_thread_id = ?')
+    .bind(chatId, threadId)
+    .run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * List every digest subscription with the given frequency
+ *
+ * @param db - D1Database instance
+ * @param frequency - 'daily' or 'weekly'
+ * @returns Promise<DigestSubscription[]>
+ */
+export async function listDigestSubscriptions(
+  db: D1Database,
+  frequency: DigestFrequency
+): Promise<DigestSubscription[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT chat_id, message_thread_id, frequency, min_messages, created_at
+       FROM digest_subscriptions WHERE frequency = ?`
+    )
+    .bind(frequency)
+    .all<DigestSubscription>();
+  return results;
+}
+
+/**
+ * Claim a digest window so it is only ever summarized once
+ *
+ * A window claimed by a run that never finished is claimed again once the
+ * claim is older than DIGEST_CLAIM_TIMEOUT_MS.
+ *
+ * @param db - D1Database instance
+ * @param subscription - The subscription being processed
+ * @param windowStart - Start of the window (inclusive ISO timestamp)
+ * @param windowEnd - End of the window (exclusive ISO timestamp)
+ * @returns Promise<boolean> - false if the window was already claimed
+ */
+export async function claimDigestWindow(
+  db: D1Database,
+  subscription: DigestSubscription,
+  windowStart: string,
+  windowEnd: string
+): Promise<boolean> {
+  const now = Date.now();
+  const result = await db
+    .prepare(
+      `INSERT INTO digest_runs (chat_id, message_thread_id, frequency, window_start, window_end, status, created_at)
+       VALUES (?, ?, ?, ?, ?, 'pending', ?)
+       ON CONFLICT (chat_id, message_thread_id, frequency, window_start)
+       DO UPDATE SET created_at = excluded.created_at
+       WHERE status = 'pending' AND created_at < ?`
+    )
+    .bind(
+      subscription.chat_id,
+      subscription.message_thread_id,
+      subscription.frequency,
+      windowStart,
+      windowEnd,
+      new Date(now).toISOString(),
+      new Date(now - DIGEST_CLAIM_TIMEOUT_MS).toISOString()
+    )
+    .run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Record the outcome of a claimed digest window
+ *
+ * @param db - D1Database instance
+ * @param subscription - The subscription being processed
+ * @param windowStart - Start of the claimed window
+ * @param status - 'posted' or 'skipped'
+ * @returns Promise<void>
+ */
+export async function completeDigestWindow(
+  db: D1Database,
+  subscription: DigestSubscription,
+  windowStart: string,
+  status: 'posted' | 'skipped'
+): Promise<void> {
+  await db
+    .prepare(
+      `UPDATE digest_runs SET status = ?
+       WHERE chat_id = ? AND message_thread_id = ? AND frequency = ? AND window_start = ?`
+    )
+    .bind(
+      status,
+      subscription.chat_id,
+      subscription.message_thread_id,
+      subscription.frequency,
+      windowStart
+    )
+    .run();
+}
+
+/**
+ * Release a claimed digest window after a failure so the next cron run can retry it
+ *
+ * @param db - D1Database instance
+ * @param subscription - The subscription being processed
+ * @param windowStart - Start of the claimed window
+ * @returns Promise<void>
+ */
+export async function releaseDigestWindow(
+  db: D1Database,
+  subscription: DigestSubscription,
+  windowStart: string
+): Promise<void> {
+  await db
+    .prepare(
+      `DELETE FROM digest_runs
+       WHERE chat_id = ? AND message_thread_id = ? AND frequency = ? AND window_start = ?
+         AND status = 'pending'`
+    )
+    .bind(subscription.chat_id, subscription.message_thread_id, subscription.frequency, windowStart)
+    .run();
+}
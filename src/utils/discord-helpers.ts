@@ -0,0 +1,293 @@
+// Discord helpers for channel message recording and interaction replies
+import { DiscordWebhookPayload } from '../types/discord';
+import { splitTelegramHTML } from './render-helpers';
+
+const DISCORD_API_URL = 'https://discord.com/api/v10';
+// Discord rejects message content longer than this
+const DISCORD_MESSAGE_LIMIT = 2000;
+
+/**
+ * Record a relayed Discord message in the database
+ *
+ * @param db - D1Database instance
+ * @param payload - Discord webhook payload with message_id and channel_id set
+ * @returns Promise<boolean> - false if the message was already archived
+ */
+export async function recordDiscordChannelMessage(
+  db: D1Database,
+  payload: DiscordWebhookPayload & { message_id: string; channel_id: string }
+): Promise<boolean> {
+  try {
+    const timestamp = new Date().toISOString();
+    const parsedDate = payload.timestamp ? new Date(payload.timestamp) : null;
+    const messageDate =
+      parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate.toISOString() : timestamp;
+
+    console.log(
+      `[${timestamp}] Recording Discord message ${payload.message_id} from channel ${payload.channel_id}`
+    );
+
+    // Insert message into the database, ignoring messages that are already archived
+    const result = await db
+      .prepare(
+        `INSERT OR IGNORE INTO discord_channel_messages (
+          message_id,
+          channel_id,
+          guild_id,
+          sender_id,
+          sender_name,
+          message_text,
+          message_date
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        payload.message_id,
+        payload.channel_id,
+        payload.guild_id || null,
+        payload.user_id,
+        payload.username || 'Unknown Discord User',
+        payload.content || '',
+        messageDate
+      )
+      .run();
+
+    if (result.meta.changes === 0) {
+      return false;
+    }
+
+    // Index the text for search, keyed by the archive row's id
+    if (payload.content) {
+      await db
+        .prepare(
+          `INSERT INTO discord_messages_fts (rowid, message_text)
+           SELECT id, message_text FROM discord_channel_messages WHERE channel_id = ? AND message_id = ?`
+        )
+        .bind(payload.channel_id, payload.message_id)
+        .run();
+    }
+
+    return true;
+  } catch (error) {
+    const timestamp = new Date().toISOString();
+    console.error(`[${timestamp}] Error recording Discord message:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch recent messages from a Discord channel
+ *
+ * Returns the same shape as fetchRecentMessages, so the results can be passed
+ * straight to generateChatSummary.
+ *
+ * @param db - D1Database instance
+ * @param channelId - Discord channel ID
+ * @param limit - Maximum number of messages to fetch
+ * @param options - Optional time window (since inclusive, until exclusive), starting message
+ *                  (afterMessageId exclusive, fromMessageId inclusive) and sender
+ * @returns Promise<Array<{ message_id: string, message_text: string, sender_name: string, message_date: string }>>
+ */
+export async function fetchRecentDiscordMessages(
+  db: D1Database,
+  channelId: string,
+  limit: number = 200,
+  options: {
+    since?: string;
+    until?: string;
+    afterMessageId?: string;
+    fromMessageId?: string;
+    senderId?: string;
+  } = {}
+): Promise<
+  Array<{ message_id: string; message_text: string; sender_name: string; message_date: string }>
+> {
+  try {
+    let query = `SELECT message_id, message_text, sender_name, message_date FROM discord_channel_messages
+                WHERE channel_id = ? AND message_text != ''`;
+    const params: Array<string | number> = [channelId];
+
+    if (options.since) {
+      query += ` AND message_date >= ?`;
+      params.push(options.since);
+    }
+
+    if (options.until) {
+      query += ` AND message_date < ?`;
+      params.push(options.until);
+    }
+
+    // Snowflakes grow over time, so this selects messages newer than the given one
+    if (options.afterMessageId) {
+      query += ` AND CAST(message_id AS INTEGER) > CAST(? AS INTEGER)`;
+      params.push(options.afterMessageId);
+    }
+
+    if (options.fromMessageId) {
+      query += ` AND CAST(message_id AS INTEGER) >= CAST(? AS INTEGER)`;
+      params.push(options.fromMessageId);
+    }
+
+    if (options.senderId) {
+      query += ` AND sender_id = ?`;
+      params.push(options.senderId);
+    }
+
+    query += ` ORDER BY message_date DESC LIMIT ?`;
+    params.push(limit);
+
+    const { results } = await db
+      .prepare(query)
+      .bind(...params)
+      .all<{
+        message_id: string;
+        message_text: string;
+        sender_name: string;
+        message_date: string;
+      }>();
+    return results;
+  } catch (error) {
+    console.error(`Error fetching Discord messages:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Convert a Telegram HTML reply into Discord markdown
+ *
+ * Commands format their replies for Telegram; this maps the tags they use onto
+ * Discord's markdown and unescapes the text.
+ *
+ * @param html - Telegram HTML message
+ * @returns Discord markdown
+ */
+function convertHTMLToDiscordMarkdown(html: string): string {
+  return (
+    html
+      .replace(/<pre>([\s\S]*?)<\/pre>/gi, '```\n$1\n```')
+      .replace(/<code>([\s\S]*?)<\/code>/gi, '`$1`')
+      .replace(/<\/?(b|strong)>/gi, '**')
+      .replace(/<\/?(i|em)>/gi, '*')
+      .replace(/<\/?(u|ins)>/gi, '__')
+      .replace(/<\/?(s|strike|del)>/gi, '~~')
+      .replace(/<\/?tg-spoiler>/gi, '||')
+      // Drop other tags before links are converted, since <url> suppresses the link preview
+      .replace(/<(?!\/?a[\s>])[^>]+>/g, '')
+      .replace(/<a\s+href="([^"]*)">([\s\S]*?)<\/a>/gi, '[$2](<$1>)')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#x27;/g, "'")
+      .replace(/&amp;/g, '&')
+  );
+}
+
+/**
+ * Convert a Telegram HTML reply into Discord messages that fit Discord's limit
+ *
+ * The HTML is split first, so formatting that spans a split is closed and
+ * reopened. Markdown is never longer than the HTML it comes from, so every
+ * part stays within the limit after conversion.
+ *
+ * @param html - Telegram HTML message
+ * @returns Discord markdown messages, in order
+ */
+export function splitHTMLToDiscordMarkdown(html: string): string[] {
+  return splitTelegramHTML(html, DISCORD_MESSAGE_LIMIT).map(convertHTMLToDiscordMarkdown);
+}
+
+/**
+ * Replace the "thinking…" placeholder of a deferred interaction with the real reply
+ *
+ * Interaction webhooks are authenticated by the interaction token, so no bot token is needed.
+ *
+ * @param applicationId - Discord application ID
+ * @param interactionToken - Token of the interaction being answered
+ * @param content - Message content (Discord markdown)
+ * @returns Promise<Response>
+ */
+export async function editDiscordInteractionResponse(
+  applicationId: string,
+  interactionToken: string,
+  content: string
+): Promise<Response> {
+  const apiUrl = `${DISCORD_API_URL}/webhooks/${applicationId}/${interactionToken}/messages/@original`;
+
+  const response = await fetch(apiUrl, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ content, allowed_mentions: { parse: [] } }),
+  });
+
+  if (!response.ok) {
+    console.error(`Failed to edit Discord interaction response: ${await response.text()}`);
+  }
+
+  return response;
+}
+
+/**
+ * Send an additional message in reply to an interaction
+ *
+ * @param applicationId - Discord application ID
+ * @param interactionToken - Token of the interaction being answered
+ * @param content - Message content (Discord markdown)
+ * @returns Promise<Response>
+ */
+export async function sendDiscordFollowupMessage(
+  applicationId: string,
+  interactionToken: string,
+  content: string
+): Promise<Response> {
+  const apiUrl = `${DISCORD_API_URL}/webhooks/${applicationId}/${interactionToken}`;
+
+  const response = await fetch(apiUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ content, allowed_mentions: { parse: [] } }),
+  });
+
+  if (!response.ok) {
+    console.error(`Failed to send Discord follow-up message: ${await response.text()}`);
+  }
+
+  return response;
+}
+
+/**
+ * Overwrite the application's global slash commands
+ *
+ * @param applicationId - Discord application ID
+ * @param botToken - Discord bot token
+ * @param commands - Application command definitions
+ * @returns Promise<{ ok: boolean; description?: string }>
+ */
+export async function setDiscordApplicationCommands(
+  applicationId: string,
+  botToken: string,
+  commands: Array<{
+    name: string;
+    description: string;
+    options?: Array<{ type: number; name: string; description: string; required?: boolean }>;
+  }>
+): Promise<{ ok: boolean; description?: string }> {
+  const apiUrl = `${DISCORD_API_URL}/applications/${applicationId}/commands`;
+
+  const response = await fetch(apiUrl, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bot ${botToken}`,
+    },
+    body: JSON.stringify(commands),
+  });
+
+  if (!response.ok) {
+    return { ok: false, description: await response.text() };
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,149 @@
+// Helpers for linking platform accounts to khmercoder.com accounts
+import { getUser } from './db-helpers';
+
+const DEFAULT_LINK_API_BASE_URL = 'https://khmercoder.com';
+
+export type LinkAction = 'link' | 'relink' | 'unlink';
+
+export interface LinkAuditEntry {
+  action: LinkAction;
+  previous_linked_user_id: string | null;
+  linked_user_id: string | null;
+  created_at: string;
+}
+
+export interface LinkResult {
+  // null when the account was already linked to the same website account
+  action: LinkAction | null;
+  previousLinkedUserId: string | null;
+}
+
+/**
+ * Exchange a one-time link code for the khmercoder.com user ID it was issued to
+ *
+ * The API lives at LINK_API_BASE_URL, so staging or a local stand-in can be used.
+ *
+ * @param env - Worker bindings
+ * @param code - Link code shown on the website
+ * @returns Promise<string | null> - Website user ID, or null if the code is invalid or expired
+ */
+export async function resolveLinkCode(
+  env: CloudflareBindings,
+  code: string
+): Promise<string | null> {
+  const baseUrl = (env.LINK_API_BASE_URL || DEFAULT_LINK_API_BASE_URL).replace(/\/+$/, '');
+  const apiUrl = `${baseUrl}/api/account/link/${encodeURIComponent(code)}`;
+
+  const response = await fetch(apiUrl, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    return null;
+  }
+
+  const result = (await response.json()) as { success: boolean; userId?: string };
+  return result.success && result.userId ? result.userId : null;
+}
+
+/**
+ * Link a platform account to a website account and record the change
+ *
+ * @param db - D1Database instance
+ * @param platform - 'telegram' or 'discord'
+ * @param userId - Platform-specific user ID
+ * @param displayName - Current display name of the user
+ * @param linkedUserId - Website user ID
+ * @returns Promise<LinkResult> - What changed and the website user ID it was linked to before
+ */
+export async function linkUserAccount(
+  db: D1Database,
+  platform: string,
+  userId: string,
+  displayName: string,
+  linkedUserId: string
+): Promise<LinkResult> {
+  const previous = (await getUser(db, platform, userId))?.linked_user_id ?? null;
+  if (previous === linkedUserId) {
+    return { action: null, previousLinkedUserId: previous };
+  }
+
+  const action: LinkAction = previous ? 'relink' : 'link';
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO link_audit (platform, user_id, action, previous_linked_user_id, linked_user_id, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .bind(platform, userId, action, previous, linkedUserId, new Date().toISOString()),
+    db
+      .prepare(
+        `INSERT INTO users (platform, user_id, display_name, linked_user_id)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (platform, user_id)
+         DO UPDATE SET linked_user_id = excluded.linked_user_id, display_name = excluded.display_name`
+      )
+      .bind(platform, userId, displayName, linkedUserId),
+  ]);
+
+  return { action, previousLinkedUserId: previous };
+}
+
+/**
+ * Remove the link between a platform account and its website account
+ *
+ * @param db - D1Database instance
+ * @param platform - 'telegram' or 'discord'
+ * @param userId - Platform-specific user ID
+ * @returns Promise<string | null> - The website user ID that was unlinked, or null if there was none
+ */
+export async function unlinkUserAccount(
+  db: D1Database,
+  platform: string,
+  userId: string
+): Promise<string | null> {
+  const previous = (await getUser(db, platform, userId))?.linked_user_id ?? null;
+  if (!previous) {
+    return null;
+  }
+
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO link_audit (platform, user_id, action, previous_linked_user_id, linked_user_id, created_at)
+         VALUES (?, ?, 'unlink', ?, NULL, ?)`
+      )
+      .bind(platform, userId, previous, new Date().toISOString()),
+    db
+      .prepare('UPDATE users SET linked_user_id = NULL WHERE platform = ? AND user_id = ?')
+      .bind(platform, userId),
+  ]);
+
+  return previous;
+}
+
+/**
+ * Fetch the most recent link change of a platform account
+ *
+ * @param db - D1Database instance
+ * @param platform - 'telegram' or 'discord'
+ * @param userId - Platform-specific user ID
+ * @returns Promise<LinkAuditEntry | null>
+ */
+export async function getLatestLinkAudit(
+  db: D1Database,
+  platform: string,
+  userId: string
+): Promise<LinkAuditEntry | null> {
+  return await db
+    .prepare(
+      `SELECT action, previous_linked_user_id, linked_user_id, created_at FROM link_audit
+       WHERE platform = ? AND user_id = ?
+       ORDER BY created_at DESC, id DESC LIMIT 1`
+    )
+    .bind(platform, userId)
+    .first<LinkAuditEntry>();
+}
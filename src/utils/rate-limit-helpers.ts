@@ -0,0 +1,167 @@
+// Cooldowns and daily quotas for commands, backed by the command_usage table
+
+const DAY_MS = 86400000;
+
+// Usage rows are only needed for today's quota and the cooldowns, so the cron job
+// removes anything older than this
+const COMMAND_USAGE_KEEP_DAYS = 2;
+
+export interface CommandLimits {
+  // Seconds a member must wait between two calls of the command, in any chat
+  userCooldown?: number;
+  // Seconds everyone in a chat must wait after the command was called there
+  chatCooldown?: number;
+  // Calls allowed per chat per UTC day, for commands that run the AI model
+  dailyQuota?: number;
+}
+
+export interface CommandUsageKey {
+  platform: string;
+  chatId: string;
+  userId: string;
+  command: string;
+}
+
+export type CommandLimitScope = 'user' | 'chat' | 'quota';
+
+export interface CommandLimitHit {
+  scope: CommandLimitScope;
+  // When the command can be called again
+  retryAt: Date;
+}
+
+/**
+ * Start of the UTC day that `date` falls in
+ *
+ * @param date - Any time of day
+ * @returns Date at 00:00 UTC
+ */
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Check a command call against its cooldowns and daily quota
+ *
+ * Only used to explain a call that claimCommandUsage turned down.
+ *
+ * @param db - D1Database instance
+ * @param key - Who is calling which command where
+ * @param limits - Limits configured on the command
+ * @param now - Current time
+ * @returns Promise<CommandLimitHit | null> - The limit that blocks the call longest, or null if it is allowed
+ */
+async function checkCommandLimits(
+  db: D1Database,
+  key: CommandUsageKey,
+  limits: CommandLimits,
+  now: Date = new Date()
+): Promise<CommandLimitHit | null> {
+  const dayStart = startOfUtcDay(now);
+
+  const usage = await db
+    .prepare(
+      `SELECT
+         (SELECT MAX(used_at) FROM command_usage
+          WHERE platform = ?1 AND user_id = ?3 AND command = ?4) AS user_last_used,
+         (SELECT MAX(used_at) FROM command_usage
+          WHERE platform = ?1 AND chat_id = ?2 AND command = ?4) AS chat_last_used,
+         (SELECT COUNT(*) FROM command_usage
+          WHERE platform = ?1 AND chat_id = ?2 AND command = ?4 AND used_at >= ?5) AS used_today`
+    )
+    .bind(key.platform, key.chatId, key.userId, key.command, dayStart.toISOString())
+    .first<{ user_last_used: string | null; chat_last_used: string | null; used_today: number }>();
+
+  const hits: CommandLimitHit[] = [];
+
+  if (limits.userCooldown && usage?.user_last_used) {
+    const retryAt = new Date(Date.parse(usage.user_last_used) + limits.userCooldown * 1000);
+    if (retryAt > now) {
+      hits.push({ scope: 'user', retryAt });
+    }
+  }
+
+  if (limits.chatCooldown && usage?.chat_last_used) {
+    const retryAt = new Date(Date.parse(usage.chat_last_used) + limits.chatCooldown * 1000);
+    if (retryAt > now) {
+      hits.push({ scope: 'chat', retryAt });
+    }
+  }
+
+  if (limits.dailyQuota && (usage?.used_today ?? 0) >= limits.dailyQuota) {
+    hits.push({ scope: 'quota', retryAt: new Date(dayStart.getTime() + DAY_MS) });
+  }
+
+  if (hits.length === 0) {
+    return null;
+  }
+  return hits.reduce((longest, hit) => (hit.retryAt > longest.retryAt ? hit : longest));
+}
+
+/**
+ * Record a call of a rate-limited command, unless a cooldown or the daily quota blocks it
+ *
+ * The limits are checked by the same statement that records the call, so two
+ * calls at the same time can't both get through.
+ *
+ * @param db - D1Database instance
+ * @param key - Who is calling which command where
+ * @param limits - Limits configured on the command
+ * @param now - Current time
+ * @returns Promise<CommandLimitHit | null> - The limit that blocks the call longest, or null if it was recorded
+ */
+export async function claimCommandUsage(
+  db: D1Database,
+  key: CommandUsageKey,
+  limits: CommandLimits,
+  now: Date = new Date()
+): Promise<CommandLimitHit | null> {
+  const cutoff = (seconds?: number) =>
+    seconds ? new Date(now.getTime() - seconds * 1000).toISOString() : null;
+
+  const result = await db
+    .prepare(
+      `INSERT INTO command_usage (platform, chat_id, user_id, command, used_at)
+       SELECT ?1, ?2, ?3, ?4, ?5
+       WHERE (?6 IS NULL OR NOT EXISTS (
+           SELECT 1 FROM command_usage
+           WHERE platform = ?1 AND user_id = ?3 AND command = ?4 AND used_at > ?6))
+         AND (?7 IS NULL OR NOT EXISTS (
+           SELECT 1 FROM command_usage
+           WHERE platform = ?1 AND chat_id = ?2 AND command = ?4 AND used_at > ?7))
+         AND (?8 IS NULL OR (
+           SELECT COUNT(*) FROM command_usage
+           WHERE platform = ?1 AND chat_id = ?2 AND command = ?4 AND used_at >= ?9) < ?8)`
+    )
+    .bind(
+      key.platform,
+      key.chatId,
+      key.userId,
+      key.command,
+      now.toISOString(),
+      cutoff(limits.userCooldown),
+      cutoff(limits.chatCooldown),
+      limits.dailyQuota ?? null,
+      startOfUtcDay(now).toISOString()
+    )
+    .run();
+
+  if (result.meta.changes > 0) {
+    return null;
+  }
+  // Usage rows are only ever added during the day, so the check finds the limit that blocked the insert
+  return (await checkCommandLimits(db, key, limits, now)) ?? { scope: 'chat', retryAt: now };
+}
+
+/**
+ * Delete usage rows that no cooldown or quota looks at any more
+ *
+ * @param db - D1Database instance
+ * @param now - Time the cron was scheduled for
+ * @returns Promise<number> - Number of rows deleted
+ */
+export async function pruneCommandUsage(db: D1Database, now: Date): Promise<number> {
+  const cutoff = new Date(now.getTime() - COMMAND_USAGE_KEEP_DAYS * DAY_MS).toISOString();
+  const result = await db.prepare('DELETE FROM command_usage WHERE used_at < ?').bind(cutoff).run();
+  return result.meta.changes ?? 0;
+}
@@ -0,0 +1,415 @@
+// Rendering Telegram HTML: sanitizing, Markdown conversion and splitting long messages
+
+// Longest message Telegram accepts
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+// Tags Telegram's HTML parse mode understands
+const ALLOWED_TAGS = new Set([
+  'b',
+  'strong',
+  'i',
+  'em',
+  'u',
+  'ins',
+  's',
+  'strike',
+  'del',
+  'code',
+  'pre',
+  'a',
+  'tg-spoiler',
+  'blockquote',
+]);
+
+// Tags whose content Telegram shows as-is, so no other tags may appear inside them
+const LITERAL_TAGS = new Set(['code', 'pre']);
+
+const ALLOWED_LINK = /^(https?:\/\/|tg:\/\/|mailto:)/i;
+
+type HTMLToken =
+  | { type: 'text'; text: string }
+  | { type: 'open'; name: string; html: string; raw: string }
+  | { type: 'close'; name: string; raw: string };
+
+/**
+ * Escape text so it can be embedded in a Telegram HTML message
+ *
+ * @param text - Plain text
+ * @returns Text with HTML special characters escaped
+ */
+export function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Escape text that may already contain HTML entities
+ *
+ * Valid entities such as `&amp;` are kept, so escaping twice changes nothing.
+ *
+ * @param text - Text between tags
+ * @returns Escaped text
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/&(?!(?:lt|gt|amp|quot|#\d+|#x[0-9a-f]+);)/gi, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Build the markup for an allowed opening tag, keeping only the attributes Telegram supports
+ *
+ * @param name - Lower-cased tag name
+ * @param attributes - Attribute text from the source tag
+ * @returns Tag markup, or null if the tag can't be used (e.g. a link without a safe URL)
+ */
+function buildOpenTag(name: string, attributes: string): string | null {
+  const attribute = (key: string) => {
+    const match = new RegExp(`${key}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i').exec(
+      attributes
+    );
+    return match ? (match[1] ?? match[2] ?? match[3]) : null;
+  };
+
+  if (name === 'a') {
+    const href = attribute('href');
+    if (!href || !ALLOWED_LINK.test(href)) {
+      return null;
+    }
+    return `<a href="${escapeText(href).replace(/"/g, '&quot;')}">`;
+  }
+
+  if (name === 'code') {
+    const language = /^language-[\w+-]+$/.exec(attribute('class') ?? '');
+    return language ? `<code class="${language[0]}">` : '<code>';
+  }
+
+  return `<${name}>`;
+}
+
+/**
+ * Split HTML into text and tag tokens
+ *
+ * Tags Telegram doesn't support are turned into escaped text, so they show up
+ * literally instead of making Telegram reject the message.
+ *
+ * @param html - HTML from a command or the AI model
+ * @returns Array of tokens; text tokens are escaped
+ */
+function tokenizeHTML(html: string): HTMLToken[] {
+  const tokens: HTMLToken[] = [];
+  const tagPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)([^<>]*)>/g;
+  let lastIndex = 0;
+
+  const pushText = (text: string) => {
+    if (text) {
+      tokens.push({ type: 'text', text: escapeText(text) });
+    }
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html)) !== null) {
+    pushText(html.slice(lastIndex, match.index));
+    lastIndex = tagPattern.lastIndex;
+
+    const [raw, slash, tagName, attributes] = match;
+    const name = tagName.toLowerCase();
+    if (!ALLOWED_TAGS.has(name)) {
+      pushText(raw);
+    } else if (slash) {
+      tokens.push({ type: 'close', name, raw });
+    } else {
+      const openTag = buildOpenTag(name, attributes);
+      // An unusable link keeps its text; its closing tag is dropped as unmatched
+      if (openTag) {
+        tokens.push({ type: 'open', name, html: openTag, raw });
+      }
+    }
+  }
+
+  pushText(html.slice(lastIndex));
+  return tokens;
+}
+
+/**
+ * Balance tags so Telegram accepts them
+ *
+ * Closing tags without an opening tag are dropped, misnested tags are closed
+ * and reopened around each other, repeated tags (`<b><b>`) are flattened, tags
+ * inside code become text, empty elements are removed and anything left open
+ * is closed at the end.
+ *
+ * @param tokens - Tokens from tokenizeHTML
+ * @returns Balanced tokens
+ */
+function balanceTokens(tokens: HTMLToken[]): HTMLToken[] {
+  const output: HTMLToken[] = [];
+  const stack: Array<Extract<HTMLToken, { type: 'open' }>> = [];
+
+  const close = (name: string) => {
+    const last = output[output.length - 1];
+    if (last?.type === 'open' && last.name === name) {
+      output.pop();
+    } else {
+      output.push({ type: 'close', name, raw: `</${name}>` });
+    }
+  };
+
+  for (const token of tokens) {
+    if (token.type === 'text') {
+      output.push(token);
+      continue;
+    }
+
+    // Only <code> may appear inside <pre>; everything else inside code is text
+    const top = stack[stack.length - 1];
+    if (top && LITERAL_TAGS.has(top.name)) {
+      const allowed =
+        token.type === 'close'
+          ? LITERAL_TAGS.has(token.name) && stack.some(open => open.name === token.name)
+          : top.name === 'pre' && token.name === 'code';
+      if (!allowed) {
+        output.push({ type: 'text', text: escapeText(token.raw) });
+        continue;
+      }
+    }
+
+    if (token.type === 'open') {
+      if (stack.some(open => open.name === token.name)) {
+        continue;
+      }
+      output.push(token);
+      stack.push(token);
+      continue;
+    }
+
+    const index = stack.map(open => open.name).lastIndexOf(token.name);
+    if (index === -1) {
+      continue;
+    }
+
+    // Close the tags opened inside this one, then reopen them after it
+    const reopen = stack.splice(index + 1).reverse();
+    reopen.forEach(open => close(open.name));
+    stack.pop();
+    close(token.name);
+    for (const open of reopen.reverse()) {
+      output.push(open);
+      stack.push(open);
+    }
+  }
+
+  while (stack.length > 0) {
+    close(stack.pop()!.name);
+  }
+
+  return output;
+}
+
+/**
+ * Turn tokens back into HTML
+ *
+ * @param tokens - Balanced tokens
+ * @returns HTML string
+ */
+function serializeTokens(tokens: HTMLToken[]): string {
+  return tokens
+    .map(token =>
+      token.type === 'text' ? token.text : token.type === 'open' ? token.html : `</${token.name}>`
+    )
+    .join('');
+}
+
+/**
+ * Make HTML safe to send with Telegram's HTML parse mode
+ *
+ * Running it on its own output changes nothing.
+ *
+ * @param html - HTML from a command or the AI model
+ * @returns Valid Telegram HTML
+ */
+export function renderTelegramHTML(html: string): string {
+  return serializeTokens(balanceTokens(tokenizeHTML(html)));
+}
+
+/**
+ * Convert the Markdown the AI model tends to write into Telegram HTML
+ *
+ * Code spans and blocks are converted first and left alone afterwards, and
+ * underscores or asterisks inside words are not treated as emphasis, so
+ * identifiers such as `snake_case` and `__init__` survive. HTML tags in the text are kept for
+ * renderTelegramHTML to check.
+ *
+ * @param text - Text with Markdown and possibly HTML formatting
+ * @returns Text with HTML formatting
+ */
+export function markdownToTelegramHTML(text: string): string {
+  const placeholders: string[] = [];
+  const protect = (html: string) => `\u0000${placeholders.push(html) - 1}\u0000`;
+
+  // Code the model already wrote as HTML is kept as it is
+  let result = text.replace(/<(pre|code)\b[^>]*>[\s\S]*?<\/\1>/gi, match => protect(match));
+
+  // ```lang\ncode``` blocks, then `code` spans
+  result = result.replace(/```([\w+-]*)\n?([\s\S]*?)```/g, (_, language: string, code: string) => {
+    const escaped = escapeHTML(code.replace(/\n$/, ''));
+    return protect(
+      language
+        ? `<pre><code class="language-${language}">${escaped}</code></pre>`
+        : `<pre>${escaped}</pre>`
+    );
+  });
+  result = result.replace(/`([^`\n]+)`/g, (_, code: string) =>
+    protect(`<code>${escapeHTML(code)}</code>`)
+  );
+
+  // Links are kept out of the emphasis rules, since URLs often contain _ and *
+  result = result.replace(
+    /\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g,
+    (_, label: string, url: string) => protect(`<a href="${url}">${label}</a>`)
+  );
+  result = result.replace(/<a\b[^>]*>[\s\S]*?<\/a>|https?:\/\/[^\s<>"]+/gi, match =>
+    protect(match)
+  );
+
+  // Headings become bold lines and list markers become bullets
+  result = result.replace(/^#{1,6}\s+(.+)$/gm, '<b>$1</b>');
+  result = result.replace(/^(\s*)[-*]\s+/gm, '$1• ');
+
+  result = result.replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<b>$1</b>');
+  // A single word in double underscores is a dunder name such as __init__, not bold text
+  result = result.replace(/(?<!\w)__(?=\S)([\s\S]*?\S)__(?!\w)/g, (match, inner: string) =>
+    /^\w+$/.test(inner) ? match : `<b>${inner}</b>`
+  );
+  result = result.replace(/(?<![\w*])\*(?=[^\s*])([^*\n]*?[^\s*])?\*(?![\w*])/g, (match, inner) =>
+    inner === undefined ? match : `<i>${inner}</i>`
+  );
+  result = result.replace(/(?<!\w)_(?=[^\s_])([^_\n]*?[^\s_])?_(?!\w)/g, (match, inner) =>
+    inner === undefined ? match : `<i>${inner}</i>`
+  );
+  result = result.replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<s>$1</s>');
+
+  return result.replace(/\u0000(\d+)\u0000/g, (_, index: string) => placeholders[Number(index)]);
+}
+
+/**
+ * Find where to cut text so the first part fits in the room left
+ *
+ * Prefers paragraph breaks, then line breaks, then spaces, and never cuts
+ * through an HTML entity or a surrogate pair.
+ *
+ * @param text - Escaped text
+ * @param room - Characters available
+ * @param midWord - Whether to cut mid-word when there is no better place
+ * @returns Cut position, or 0 if nothing fits
+ */
+function findCut(text: string, room: number, midWord: boolean): number {
+  const window = text.slice(0, room);
+  const paragraph = window.lastIndexOf('\n\n');
+  const line = window.lastIndexOf('\n');
+  const space = window.lastIndexOf(' ');
+
+  let cut: number;
+  if (paragraph >= room / 2) {
+    cut = paragraph;
+  } else if (line >= room / 2) {
+    cut = line;
+  } else if (space > 0) {
+    cut = space;
+  } else if (midWord) {
+    cut = room;
+  } else {
+    return 0;
+  }
+
+  const ampersand = window.lastIndexOf('&', cut - 1);
+  if (ampersand > window.lastIndexOf(';', cut - 1)) {
+    cut = ampersand;
+  }
+  const code = text.charCodeAt(cut - 1);
+  if (code >= 0xd800 && code <= 0xdbff) {
+    cut--;
+  }
+
+  return Math.max(cut, 0);
+}
+
+/**
+ * Split Telegram HTML into messages of at most `limit` characters
+ *
+ * Tags that are open at a split are closed at the end of one message and
+ * reopened at the start of the next.
+ *
+ * @param html - HTML to send
+ * @param limit - Maximum message length
+ * @returns Array of valid Telegram HTML messages
+ */
+export function splitTelegramHTML(html: string, limit: number = TELEGRAM_MESSAGE_LIMIT): string[] {
+  const tokens = balanceTokens(tokenizeHTML(html));
+  const parts: string[] = [];
+  const stack: Array<Extract<HTMLToken, { type: 'open' }>> = [];
+  let current = '';
+  let hasText = false;
+
+  const closingLength = () => stack.reduce((length, open) => length + open.name.length + 3, 0);
+  const flush = () => {
+    parts.push(
+      current +
+        [...stack]
+          .reverse()
+          .map(open => `</${open.name}>`)
+          .join('')
+    );
+    current = stack.map(open => open.html).join('');
+    hasText = false;
+  };
+
+  for (const token of tokens) {
+    if (token.type === 'open') {
+      if (
+        hasText &&
+        current.length + token.html.length + closingLength() + token.name.length + 3 > limit
+      ) {
+        flush();
+      }
+      current += token.html;
+      stack.push(token);
+    } else if (token.type === 'close') {
+      current += `</${token.name}>`;
+      stack.pop();
+    } else {
+      let text = token.text;
+      while (text) {
+        const room = limit - current.length - closingLength();
+        if (text.length <= room) {
+          current += text;
+          hasText = true;
+          break;
+        }
+
+        // Words are only cut when they don't fit in an empty message either
+        let cut = findCut(text, room, !hasText);
+        if (cut === 0 && hasText) {
+          flush();
+          continue;
+        }
+        if (cut === 0) {
+          cut = Math.max(room, 1);
+        }
+
+        current += text.slice(0, cut);
+        // Drop the line break or space the text was split at
+        text = text.slice(cut).replace(/^(\n+| )/, '');
+        hasText = true;
+        flush();
+      }
+    }
+  }
+
+  if (hasText) {
+    parts.push(current);
+  }
+
+  // A split right before a closing tag leaves an empty element behind; rendering removes it
+  return parts.map(renderTelegramHTML).filter(part => part.trim() !== '');
+}
@@ -0,0 +1,131 @@
+// Retention helpers for pruning old archived Telegram messages
+
+// Rows deleted per transaction, kept small to stay under D1's per-query limits
+const PRUNE_BATCH_SIZE = 500;
+// Upper bound on batches per chat per run; anything left over is pruned on the next run
+const MAX_BATCHES_PER_RUN = 20;
+
+/**
+ * List the chats whose archive should be pruned, with their retention period
+ *
+ * @param db - D1Database instance
+ * @param defaultRetentionDays - Retention for chats without a setting, or null to keep them forever
+ * @returns Promise<Array<{ chat_id: string; retention_days: number }>>
+ */
+export async function listChatsToPrune(
+  db: D1Database,
+  defaultRetentionDays: number | null
+): Promise<Array<{ chat_id: string; retention_days: number }>> {
+  const { results } = await db
+    .prepare(
+      `SELECT chats.chat_id, COALESCE(cs.retention_days, ?) AS retention_days
+       FROM (SELECT DISTINCT chat_id FROM telegram_channel_messages) chats
+       LEFT JOIN chat_settings cs ON cs.chat_id = chats.chat_id
+       WHERE COALESCE(cs.retention_days, ?) > 0`
+    )
+    .bind(defaultRetentionDays, defaultRetentionDays)
+    .all<{ chat_id: string; retention_days: number }>();
+  return results;
+}
+
+/**
+ * Delete a chat's archived messages older than the cutoff
+ *
+ * Each batch runs as one transaction that first folds the rows into
+ * telegram_message_aggregates, then deletes their edit history, search index entries
+ * and the rows themselves.
+ *
+ * @param db - D1Database instance
+ * @param chatId - Telegram chat ID
+ * @param cutoff - ISO timestamp; messages sent before it are pruned
+ * @returns Promise<number> - Number of messages deleted
+ */
+export async function pruneChatMessages(
+  db: D1Database,
+  chatId: string,
+  cutoff: string
+): Promise<number> {
+  // The same deterministic selection is used by every statement in the batch
+  const batchRows = `SELECT id FROM telegram_channel_messages
+    WHERE chat_id = ? AND message_date < ?
+    ORDER BY message_date, id LIMIT ?`;
+
+  let deleted = 0;
+
+  for (let i = 0; i < MAX_BATCHES_PER_RUN; i++) {
+    const [, , , result] = await db.batch([
+      db
+        .prepare(
+          `INSERT INTO telegram_message_aggregates
+            (chat_id, message_thread_id, sender_id, message_day, message_hour, message_count, text_length)
+          SELECT chat_id,
+            COALESCE(message_thread_id, ''),
+            COALESCE(sender_id, ''),
+            substr(message_date, 1, 10),
+            CAST(strftime('%H', message_date) AS INTEGER),
+            COUNT(*),
+            SUM(LENGTH(COALESCE(message_text, '')))
+          FROM telegram_channel_messages
+          WHERE id IN (${batchRows})
+          GROUP BY 1, 2, 3, 4, 5
+          ON CONFLICT (chat_id, message_thread_id, sender_id, message_day, message_hour)
+          DO UPDATE SET
+            message_count = message_count + excluded.message_count,
+            text_length = text_length + excluded.text_length`
+        )
+        .bind(chatId, cutoff, PRUNE_BATCH_SIZE),
+      db
+        .prepare(
+          `DELETE FROM telegram_message_edits
+          WHERE chat_id = ? AND message_id IN (
+            SELECT message_id FROM telegram_channel_messages WHERE id IN (${batchRows})
+          )`
+        )
+        .bind(chatId, chatId, cutoff, PRUNE_BATCH_SIZE),
+      db
+        .prepare(`DELETE FROM telegram_messages_fts WHERE rowid IN (${batchRows})`)
+        .bind(chatId, cutoff, PRUNE_BATCH_SIZE),
+      db
+        .prepare(`DELETE FROM telegram_channel_messages WHERE id IN (${batchRows})`)
+        .bind(chatId, cutoff, PRUNE_BATCH_SIZE),
+    ]);
+
+    const changes = result.meta.changes;
+    deleted += changes;
+    if (changes < PRUNE_BATCH_SIZE) {
+      break;
+    }
+  }
+
+  return deleted;
+}
+
+/**
+ * Apply every chat's retention policy
+ *
+ * @param env - Worker bindings
+ * @param now - Reference time for the cutoffs
+ * @returns Promise<void>
+ */
+export async function runRetention(env: CloudflareBindings, now: Date): Promise<void> {
+  const timestamp = new Date().toISOString();
+  const defaultRetentionDays = env.DEFAULT_RETENTION_DAYS
+    ? Number(env.DEFAULT_RETENTION_DAYS)
+    : null;
+
+  const chats = await listChatsToPrune(env.DB, defaultRetentionDays);
+
+  for (const chat of chats) {
+    try {
+      const cutoff = new Date(now.getTime() - chat.retention_days * 86400000).toISOString();
+      const deleted = await pruneChatMessages(env.DB, chat.chat_id, cutoff);
+      if (deleted > 0) {
+        console.log(
+          `[${timestamp}] Pruned ${deleted} messages older than ${cutoff} from chat ${chat.chat_id}`
+        );
+      }
+    } catch (error) {
+      console.error(`[${timestamp}] Error pruning messages for chat ${chat.chat_id}:`, error);
+    }
+  }
+}
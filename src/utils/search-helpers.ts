@@ -0,0 +1,252 @@
+// Full-text search helpers over archived Telegram and Discord messages
+
+// Markers wrapped around matched terms by snippet(); replaced after HTML escaping
+export const MATCH_START = '\u0002';
+export const MATCH_END = '\u0003';
+
+export type SearchPlatform = 'telegram' | 'discord';
+
+// The trigram tokenizer can only match terms of at least this many characters
+const MIN_FTS_TERM_LENGTH = 3;
+// Characters kept on each side of the first match when a snippet is cut from the message
+const SNIPPET_CONTEXT = 60;
+
+export interface SearchOptions {
+  // Telegram chat ID or Discord channel ID
+  chatId: string;
+  terms: string[];
+  senderId?: string;
+  senderName?: string;
+  // Inclusive ISO timestamp
+  since?: string;
+  // Exclusive ISO timestamp
+  until?: string;
+  limit?: number;
+}
+
+export interface SearchResult {
+  message_id: string;
+  // Forum topic, Telegram only
+  message_thread_id: string | null;
+  // Discord server, Discord only
+  guild_id: string | null;
+  sender_name: string | null;
+  message_date: string;
+  snippet: string;
+}
+
+/**
+ * Build an FTS5 query that matches every term literally
+ *
+ * Each term is quoted so user input can never be parsed as FTS5 syntax.
+ *
+ * @param terms - Search terms
+ * @returns FTS5 MATCH expression
+ */
+export function buildFtsQuery(terms: string[]): string {
+  return terms.map(term => `"${term.replace(/"/g, '""')}"`).join(' ');
+}
+
+/**
+ * Build a LIKE pattern that matches a term anywhere in the text
+ *
+ * @param term - Search term
+ * @returns Pattern with %, _ and backslashes escaped, for use with ESCAPE '\'
+ */
+function buildLikePattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+}
+
+/**
+ * Cut a snippet around the first matched term and mark every match, like snippet() does
+ *
+ * Used for results found with LIKE only, which have no FTS row to take a snippet from.
+ *
+ * @param text - Message text
+ * @param terms - Search terms
+ * @returns Snippet with MATCH_START and MATCH_END around the matched terms
+ */
+function buildLikeSnippet(text: string, terms: string[]): string {
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(escaped.join('|'), 'gi');
+
+  const first = text.search(pattern);
+  const start = Math.max(0, first - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, Math.max(first, 0) + SNIPPET_CONTEXT * 2);
+  const excerpt = text
+    .slice(start, end)
+    .replace(pattern, match => `${MATCH_START}${match}${MATCH_END}`);
+
+  return `${start > 0 ? '…' : ''}${excerpt}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Build a t.me deep link to a message in a supergroup or channel
+ *
+ * @param chatId - Telegram chat ID (e.g. -1001234567890)
+ * @param messageId - Telegram message ID
+ * @param threadId - Optional forum topic ID
+ * @returns Link URL, or null for chats that can't be linked to
+ */
+export function buildTelegramMessageLink(
+  chatId: string,
+  messageId: string,
+  threadId?: string | null
+): string | null {
+  if (!chatId.startsWith('-100')) {
+    return null;
+  }
+  const internalId = chatId.slice('-100'.length);
+  return threadId
+    ? `https://t.me/c/${internalId}/${threadId}/${messageId}`
+    : `https://t.me/c/${internalId}/${messageId}`;
+}
+
+/**
+ * Build a discord.com link to a message in a server channel
+ *
+ * @param guildId - Discord server ID, or null for direct messages
+ * @param channelId - Discord channel ID
+ * @param messageId - Discord message ID
+ * @returns Link URL
+ */
+export function buildDiscordMessageLink(
+  guildId: string | null,
+  channelId: string,
+  messageId: string
+): string {
+  return `https://discord.com/channels/${guildId || '@me'}/${channelId}/${messageId}`;
+}
+
+export interface ParsedMessageLink {
+  platform: SearchPlatform;
+  // Telegram chat ID or Discord channel ID, when the link contains one
+  chatId?: string;
+  // Public Telegram chat username, for t.me/<username>/<id> links
+  chatUsername?: string;
+  messageId: string;
+}
+
+/**
+ * Parse a Telegram or Discord message link, the reverse of the link builders above
+ *
+ * @param link - t.me or discord.com message URL
+ * @returns ParsedMessageLink, or null if the text isn't a message link
+ */
+export function parseMessageLink(link: string): ParsedMessageLink | null {
+  const telegram =
+    /^(?:https?:\/\/)?t\.me\/(?:c\/(\d+)|([a-zA-Z][a-zA-Z0-9_]{3,31}))\/(?:\d+\/)?(\d+)\/?(?:\?.*)?$/.exec(
+      link
+    );
+  if (telegram) {
+    const [, internalId, username, messageId] = telegram;
+    return internalId
+      ? { platform: 'telegram', chatId: `-100${internalId}`, messageId }
+      : { platform: 'telegram', chatUsername: username, messageId };
+  }
+
+  const discord =
+    /^(?:https?:\/\/)?(?:(?:ptb|canary)\.)?discord(?:app)?\.com\/channels\/(?:\d+|@me)\/(\d+)\/(\d+)\/?$/.exec(
+      link
+    );
+  if (discord) {
+    return { platform: 'discord', chatId: discord[1], messageId: discord[2] };
+  }
+
+  return null;
+}
+
+/**
+ * Search a chat's archived messages, best matches first
+ *
+ * Terms of at least 3 characters are looked up in the trigram index. Shorter
+ * terms are matched with LIKE; if every term is short, the newest matches come first.
+ * Telegram messages in topics that are blacklisted for the chat are never returned.
+ *
+ * @param db - D1Database instance
+ * @param platform - Which archive to search
+ * @param options - Chat, search terms and optional sender/date filters
+ * @returns Promise<SearchResult[]>
+ */
+export async function searchMessages(
+  db: D1Database,
+  platform: SearchPlatform,
+  options: SearchOptions
+): Promise<SearchResult[]> {
+  try {
+    const ftsTerms = options.terms.filter(term => [...term].length >= MIN_FTS_TERM_LENGTH);
+    const likeTerms = options.terms.filter(term => [...term].length < MIN_FTS_TERM_LENGTH);
+    const useFts = ftsTerms.length > 0;
+    const fts = `${platform}_messages_fts`;
+    // Each trigram token advances one character, so take the longest snippet FTS5 allows
+    const snippet = useFts
+      ? `snippet(${fts}, 0, '${MATCH_START}', '${MATCH_END}', '…', 64)`
+      : 'm.message_text';
+    const source = useFts
+      ? `${fts} f
+        JOIN ${platform}_channel_messages m ON m.id = f.rowid`
+      : `${platform}_channel_messages m`;
+
+    let query: string;
+    const params: Array<string | number> = [];
+
+    if (platform === 'discord') {
+      query = `SELECT m.message_id, NULL AS message_thread_id, m.guild_id, m.sender_name, m.message_date,
+          ${snippet} AS snippet
+        FROM ${source}
+        WHERE m.channel_id = ?`;
+      params.push(options.chatId);
+    } else {
+      query = `SELECT m.message_id, m.message_thread_id, NULL AS guild_id, m.sender_name, m.message_date,
+          ${snippet} AS snippet
+        FROM ${source}
+        WHERE m.chat_id = ?
+          AND (m.message_thread_id IS NULL OR m.message_thread_id NOT IN (
+            SELECT message_thread_id FROM blacklist_topic WHERE chat_id IN (?, '')
+          ))`;
+      params.push(options.chatId, options.chatId);
+    }
+
+    if (useFts) {
+      query += ` AND ${fts} MATCH ?`;
+      params.push(buildFtsQuery(ftsTerms));
+    }
+    for (const term of likeTerms) {
+      query += ` AND m.message_text LIKE ? ESCAPE '\\'`;
+      params.push(buildLikePattern(term));
+    }
+    if (options.senderId) {
+      query += ` AND m.sender_id = ?`;
+      params.push(options.senderId);
+    }
+    if (options.senderName) {
+      query += ` AND m.sender_name LIKE ?`;
+      params.push(`%${options.senderName}%`);
+    }
+    if (options.since) {
+      query += ` AND m.message_date >= ?`;
+      params.push(options.since);
+    }
+    if (options.until) {
+      query += ` AND m.message_date < ?`;
+      params.push(options.until);
+    }
+
+    query += useFts ? ` ORDER BY bm25(${fts}) LIMIT ?` : ` ORDER BY m.message_date DESC LIMIT ?`;
+    params.push(options.limit ?? 5);
+
+    const { results } = await db
+      .prepare(query)
+      .bind(...params)
+      .all<SearchResult>();
+    return useFts
+      ? results
+      : results.map(result => ({
+          ...result,
+          snippet: buildLikeSnippet(result.snippet, likeTerms),
+        }));
+  } catch (error) {
+    console.error(`Error searching messages:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,69 @@
+// Database helpers for per-chat settings
+
+export interface ChatSettings {
+  chat_id: string;
+  retention_days: number | null;
+  // Model name from AI_MODELS in ai-client.ts, null for the default model chain
+  summary_model: string | null;
+}
+
+/**
+ * Fetch the settings of a chat
+ *
+ * @param db - D1Database instance
+ * @param chatId - Telegram chat ID or Discord channel ID
+ * @returns Promise<ChatSettings | null> - null if the chat has no settings yet
+ */
+export async function getChatSettings(
+  db: D1Database,
+  chatId: string
+): Promise<ChatSettings | null> {
+  return await db
+    .prepare('SELECT chat_id, retention_days, summary_model FROM chat_settings WHERE chat_id = ?')
+    .bind(chatId)
+    .first<ChatSettings>();
+}
+
+/**
+ * Set how long a chat's archived messages are kept
+ *
+ * @param db - D1Database instance
+ * @param chatId - Telegram chat ID
+ * @param retentionDays - Days to keep messages, 0 to keep them forever, null for the default
+ * @returns Promise<void>
+ */
+export async function setChatRetentionDays(
+  db: D1Database,
+  chatId: string,
+  retentionDays: number | null
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO chat_settings (chat_id, retention_days, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT (chat_id) DO UPDATE SET retention_days = excluded.retention_days, updated_at = excluded.updated_at`
+    )
+    .bind(chatId, retentionDays, new Date().toISOString())
+    .run();
+}
+
+/**
+ * Set the AI model tried first for a chat's summaries
+ *
+ * @param db - D1Database instance
+ * @param chatId - Telegram chat ID or Discord channel ID
+ * @param model - Model name, or null for the default model chain
+ * @returns Promise<void>
+ */
+export async function setChatSummaryModel(
+  db: D1Database,
+  chatId: string,
+  model: string | null
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO chat_settings (chat_id, summary_model, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT (chat_id) DO UPDATE SET summary_model = excluded.summary_model, updated_at = excluded.updated_at`
+    )
+    .bind(chatId, model, new Date().toISOString())
+    .run();
+}
@@ -0,0 +1,493 @@
+// Statistics helpers for leaderboards and user activity
+
+export type LeaderboardMetric = 'messages' | 'length';
+
+/**
+ * An inclusive range of `chat_date` values ('YYYY-MM-DD', UTC).
+ * Missing bounds mean the range is open on that side.
+ */
+export interface DateRange {
+  startDate?: string;
+  endDate?: string;
+  label: string;
+}
+
+export interface LeaderboardOptions {
+  platform?: string;
+  // Restrict to a single chat; leave undefined for the global cross-chat view
+  chatId?: string;
+  startDate?: string;
+  endDate?: string;
+  metric: LeaderboardMetric;
+  // Rank accounts that share a users.linked_user_id as one person
+  mergeLinked?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  // With mergeLinked, the linked person's most active account in range
+  platform: string;
+  user_id: string;
+  linked_user_id: string | null;
+  display_name: string;
+  message_count: number;
+  message_length: number;
+}
+
+// Whitelist of columns a leaderboard can be ranked by
+const METRIC_COLUMNS: Record<LeaderboardMetric, string> = {
+  messages: 'message_count',
+  length: 'message_length',
+};
+
+/**
+ * Format a date as 'YYYY-MM-DD' (UTC), matching chat_counter.chat_date
+ *
+ * @param date - Date to format
+ * @returns Date string
+ */
+export function formatChatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Check that a string is a real calendar date in 'YYYY-MM-DD' format
+ *
+ * @param value - String to check
+ * @returns boolean
+ */
+export function isValidChatDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && formatChatDate(date) === value;
+}
+
+/**
+ * Resolve a period keyword or explicit date range into chat_date bounds
+ *
+ * Supported values:
+ * - `today` - the current UTC day
+ * - `week` - the last 7 days including today
+ * - `month` - the last 30 days including today
+ * - `all` - no bounds
+ * - `YYYY-MM-DD` - a single day
+ * - `YYYY-MM-DD..YYYY-MM-DD` - an inclusive range
+ *
+ * @param period - Period keyword or date range
+ * @param now - Reference time, defaults to the current time
+ * @returns DateRange or null if the period is not recognised
+ */
+export function resolvePeriod(period: string, now: Date = new Date()): DateRange | null {
+  const today = formatChatDate(now);
+  const daysAgo = (days: number) => formatChatDate(new Date(now.getTime() - days * 86400000));
+
+  switch (period.toLowerCase()) {
+    case 'today':
+      return { startDate: today, endDate: today, label: 'Today' };
+    case 'week':
+      return { startDate: daysAgo(6), endDate: today, label: 'Last 7 days' };
+    case 'month':
+      return { startDate: daysAgo(29), endDate: today, label: 'Last 30 days' };
+    case 'all':
+      return { label: 'All time' };
+  }
+
+  const [startDate, endDate = startDate] = period.split('..');
+  if (!isValidChatDate(startDate) || !isValidChatDate(endDate) || startDate > endDate) {
+    return null;
+  }
+
+  return {
+    startDate,
+    endDate,
+    label: startDate === endDate ? startDate : `${startDate} to ${endDate}`,
+  };
+}
+
+/**
+ * Build the ranked per-user totals query shared by the leaderboard and rank lookups
+ *
+ * @param options - Leaderboard options
+ * @returns SQL string and its bound parameters
+ */
+function buildRankedQuery(options: LeaderboardOptions): { sql: string; params: string[] } {
+  const column = METRIC_COLUMNS[options.metric];
+  const conditions: string[] = [];
+  const params: string[] = [];
+
+  if (options.platform) {
+    conditions.push('cc.platform = ?');
+    params.push(options.platform);
+  }
+  if (options.chatId !== undefined) {
+    conditions.push('cc.chat_id = ?');
+    params.push(options.chatId);
+  }
+  if (options.startDate) {
+    conditions.push('cc.chat_date >= ?');
+    params.push(options.startDate);
+  }
+  if (options.endDate) {
+    conditions.push('cc.chat_date <= ?');
+    params.push(options.endDate);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const accounts = `SELECT cc.platform, cc.user_id, u.linked_user_id,
+      COALESCE(u.display_name, cc.user_id) AS display_name,
+      SUM(cc.message_count) AS message_count,
+      SUM(cc.message_length) AS message_length
+    FROM chat_counter cc
+    LEFT JOIN users u ON u.platform = cc.platform AND u.user_id = cc.user_id
+    ${where}
+    GROUP BY cc.platform, cc.user_id`;
+
+  // Linked accounts are summed and shown as their most active account
+  const people = options.mergeLinked
+    ? `SELECT platform, user_id, linked_user_id, display_name, message_count, message_length
+      FROM (
+        SELECT platform, user_id, linked_user_id, display_name,
+          SUM(message_count) OVER person AS message_count,
+          SUM(message_length) OVER person AS message_length,
+          ROW_NUMBER() OVER (person ORDER BY ${column} DESC, platform, user_id) AS account_rank
+        FROM (${accounts})
+        WINDOW person AS (PARTITION BY COALESCE(linked_user_id, platform || ':' || user_id))
+      )
+      WHERE account_rank = 1`
+    : accounts;
+
+  const sql = `SELECT platform, user_id, linked_user_id, display_name, message_count, message_length,
+      RANK() OVER (ORDER BY ${column} DESC) AS rank
+    FROM (${people})`;
+
+  return { sql, params };
+}
+
+/**
+ * Fetch a ranked leaderboard from chat_counter
+ *
+ * @param db - D1Database instance
+ * @param options - Platform, date range, metric and pagination
+ * @returns Promise<LeaderboardEntry[]>
+ */
+export async function getLeaderboard(
+  db: D1Database,
+  options: LeaderboardOptions
+): Promise<LeaderboardEntry[]> {
+  try {
+    const { sql, params } = buildRankedQuery(options);
+    const { results } = await db
+      .prepare(`${sql} ORDER BY rank ASC, user_id ASC LIMIT ? OFFSET ?`)
+      .bind(...params, options.limit ?? 10, options.offset ?? 0)
+      .all<LeaderboardEntry>();
+    return results;
+  } catch (error) {
+    console.error(`Error fetching leaderboard:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Look up a single user's position on a leaderboard
+ *
+ * With mergeLinked, the entry of the person the account is linked to is returned.
+ *
+ * @param db - D1Database instance
+ * @param platform - Platform of the user
+ * @param userId - Platform-specific user ID
+ * @param options - Same options used for the leaderboard
+ * @returns Promise<LeaderboardEntry | null> - null if the user has no messages in range
+ */
+export async function getUserRank(
+  db: D1Database,
+  platform: string,
+  userId: string,
+  options: LeaderboardOptions
+): Promise<LeaderboardEntry | null> {
+  try {
+    const { sql, params } = buildRankedQuery(options);
+    if (options.mergeLinked) {
+      return await db
+        .prepare(
+          `SELECT * FROM (${sql})
+          WHERE (platform = ? AND user_id = ?)
+            OR linked_user_id = (SELECT linked_user_id FROM users WHERE platform = ? AND user_id = ?)`
+        )
+        .bind(...params, platform, userId, platform, userId)
+        .first<LeaderboardEntry>();
+    }
+    return await db
+      .prepare(`SELECT * FROM (${sql}) WHERE platform = ? AND user_id = ?`)
+      .bind(...params, platform, userId)
+      .first<LeaderboardEntry>();
+  } catch (error) {
+    console.error(`Error fetching rank for user ${userId}:`, error);
+    throw error;
+  }
+}
+
+export interface UserActivityOptions {
+  platform: string;
+  userId: string;
+  // Include every account linked to the same users.linked_user_id
+  mergeLinked?: boolean;
+  // Restrict to a single chat; leave undefined for activity across all chats
+  chatId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface UserTotals {
+  message_count: number;
+  message_length: number;
+  first_date: string | null;
+}
+
+export interface DailyCount {
+  chat_date: string;
+  message_count: number;
+  message_length: number;
+}
+
+/**
+ * Build the WHERE clause selecting one user's chat_counter rows
+ *
+ * @param options - User, optional chat, optional date range and whether to include linked accounts
+ * @returns SQL condition and its bound parameters
+ */
+function buildUserCondition(options: UserActivityOptions): { where: string; params: string[] } {
+  const conditions = options.mergeLinked
+    ? [
+        `((platform = ? AND user_id = ?) OR (platform, user_id) IN (
+          SELECT platform, user_id FROM users WHERE linked_user_id = (
+            SELECT linked_user_id FROM users WHERE platform = ? AND user_id = ?
+          )
+        ))`,
+      ]
+    : ['platform = ?', 'user_id = ?'];
+  const params = options.mergeLinked
+    ? [options.platform, options.userId, options.platform, options.userId]
+    : [options.platform, options.userId];
+
+  if (options.chatId !== undefined) {
+    conditions.push('chat_id = ?');
+    params.push(options.chatId);
+  }
+  if (options.startDate) {
+    conditions.push('chat_date >= ?');
+    params.push(options.startDate);
+  }
+  if (options.endDate) {
+    conditions.push('chat_date <= ?');
+    params.push(options.endDate);
+  }
+
+  return { where: conditions.join(' AND '), params };
+}
+
+/**
+ * Fetch message totals for a user, all-time unless a date range is given
+ *
+ * @param db - D1Database instance
+ * @param options - User, optional chat and optional date range
+ * @returns Promise<UserTotals>
+ */
+export async function getUserTotals(
+  db: D1Database,
+  options: UserActivityOptions
+): Promise<UserTotals> {
+  try {
+    const { where, params } = buildUserCondition(options);
+    const totals = await db
+      .prepare(
+        `SELECT COALESCE(SUM(message_count), 0) AS message_count,
+          COALESCE(SUM(message_length), 0) AS message_length,
+          MIN(chat_date) AS first_date
+        FROM chat_counter WHERE ${where}`
+      )
+      .bind(...params)
+      .first<UserTotals>();
+    return totals ?? { message_count: 0, message_length: 0, first_date: null };
+  } catch (error) {
+    console.error(`Error fetching totals for user ${options.userId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch a user's message count and length per day, oldest first
+ *
+ * @param db - D1Database instance
+ * @param options - User, optional chat and optional date range
+ * @returns Promise<DailyCount[]> - only days with at least one message
+ */
+export async function getUserDailyCounts(
+  db: D1Database,
+  options: UserActivityOptions
+): Promise<DailyCount[]> {
+  try {
+    const { where, params } = buildUserCondition(options);
+    const { results } = await db
+      .prepare(
+        `SELECT chat_date,
+          SUM(message_count) AS message_count,
+          SUM(message_length) AS message_length
+        FROM chat_counter WHERE ${where}
+        GROUP BY chat_date
+        HAVING SUM(message_count) > 0
+        ORDER BY chat_date ASC`
+      )
+      .bind(...params)
+      .all<DailyCount>();
+    return results;
+  } catch (error) {
+    console.error(`Error fetching daily counts for user ${options.userId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Count a user's archived messages by day of week and hour of day (UTC)
+ *
+ * Includes Telegram messages that have since been pruned into telegram_message_aggregates.
+ * With mergeLinked, the messages of every linked Telegram and Discord account are counted.
+ *
+ * @param db - D1Database instance
+ * @param options - User, optional chat and whether to include linked accounts
+ * @returns Promise<{ byWeekday: number[]; byHour: number[] }> - 7 (Sunday first) and 24 buckets
+ */
+export async function getUserActivityPattern(
+  db: D1Database,
+  options: UserActivityOptions
+): Promise<{ byWeekday: number[]; byHour: number[] }> {
+  try {
+    const accounts = options.mergeLinked
+      ? `SELECT ? AS platform, ? AS user_id
+        UNION SELECT platform, user_id FROM users WHERE linked_user_id = (
+          SELECT linked_user_id FROM users WHERE platform = ? AND user_id = ?
+        )`
+      : 'SELECT ? AS platform, ? AS user_id';
+    const params = options.mergeLinked
+      ? [options.platform, options.userId, options.platform, options.userId]
+      : [options.platform, options.userId];
+
+    const senders = (platform: string, chatColumn: string) => {
+      let where = `sender_id IN (SELECT user_id FROM accounts WHERE platform = '${platform}')`;
+      if (options.chatId !== undefined) {
+        where += ` AND ${chatColumn} = ?`;
+        params.push(options.chatId);
+      }
+      return where;
+    };
+
+    const { results } = await db
+      .prepare(
+        `WITH accounts AS (${accounts})
+        SELECT CAST(strftime('%w', message_date) AS INTEGER) AS weekday,
+          CAST(strftime('%H', message_date) AS INTEGER) AS hour,
+          COUNT(*) AS message_count
+        FROM telegram_channel_messages WHERE ${senders('telegram', 'chat_id')}
+        GROUP BY weekday, hour
+        UNION ALL
+        SELECT CAST(strftime('%w', message_day) AS INTEGER) AS weekday,
+          message_hour AS hour,
+          SUM(message_count) AS message_count
+        FROM telegram_message_aggregates WHERE ${senders('telegram', 'chat_id')}
+        GROUP BY weekday, hour
+        UNION ALL
+        SELECT CAST(strftime('%w', message_date) AS INTEGER) AS weekday,
+          CAST(strftime('%H', message_date) AS INTEGER) AS hour,
+          COUNT(*) AS message_count
+        FROM discord_channel_messages WHERE ${senders('discord', 'channel_id')}
+        GROUP BY weekday, hour`
+      )
+      .bind(...params)
+      .all<{ weekday: number; hour: number; message_count: number }>();
+
+    const byWeekday = new Array(7).fill(0);
+    const byHour = new Array(24).fill(0);
+    for (const row of results) {
+      byWeekday[row.weekday] += row.message_count;
+      byHour[row.hour] += row.message_count;
+    }
+
+    return { byWeekday, byHour };
+  } catch (error) {
+    console.error(`Error fetching activity pattern for user ${options.userId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Calculate the current and longest run of consecutive active days
+ *
+ * The current streak is still alive if the user hasn't posted yet today
+ * but did yesterday.
+ *
+ * @param activeDates - Sorted 'YYYY-MM-DD' dates with at least one message
+ * @param now - Reference time, defaults to the current time
+ * @returns Current and longest streak in days
+ */
+export function calculateStreaks(
+  activeDates: string[],
+  now: Date = new Date()
+): { current: number; longest: number } {
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+
+  for (const date of activeDates) {
+    const day = Date.parse(`${date}T00:00:00Z`) / 86400000;
+    run = previous !== null && day - previous === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+
+  const today = Date.parse(`${formatChatDate(now)}T00:00:00Z`) / 86400000;
+  const current = previous !== null && today - previous <= 1 ? run : 0;
+
+  return { current, longest };
+}
+
+/**
+ * Fill in per-day counts for the last `days` days, oldest first
+ *
+ * @param dailyCounts - Days with messages
+ * @param days - Number of days to include, ending today
+ * @param now - Reference time, defaults to the current time
+ * @returns Array of counts with zeros for inactive days
+ */
+export function getRecentDailySeries(
+  dailyCounts: DailyCount[],
+  days: number,
+  now: Date = new Date()
+): number[] {
+  const counts = new Map(dailyCounts.map(day => [day.chat_date, day.message_count]));
+  const series: number[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    series.push(counts.get(formatChatDate(new Date(now.getTime() - i * 86400000))) ?? 0);
+  }
+  return series;
+}
+
+/**
+ * Render a series of numbers as a text sparkline
+ *
+ * @param values - Values to plot
+ * @returns Sparkline string, one block character per value
+ */
+export function renderSparkline(values: number[]): string {
+  const blocks = '▁▂▃▄▅▆▇█';
+  const max = Math.max(...values);
+  // Inactive days get the lowest block, any activity at least the second lowest
+  return values
+    .map(value =>
+      value === 0 ? blocks[0] : blocks[Math.ceil((value / max) * (blocks.length - 1))]
+    )
+    .join('');
+}
@@ -0,0 +1,105 @@
+// Helpers for caching /summary results in the summary_cache table
+
+const HOUR_MS = 3600000;
+
+// A cached summary older than this is regenerated from scratch instead of being
+// extended, so it doesn't keep describing a conversation nobody remembers
+export const SUMMARY_CACHE_MAX_AGE_MS = 24 * HOUR_MS;
+
+export interface SummaryCacheKey {
+  platform: string;
+  chatId: string;
+  threadId?: string;
+  prompt: string;
+}
+
+export interface CachedSummary {
+  last_message_id: string;
+  message_count: number;
+  summary: string;
+  // Model that wrote the summary, null for summaries cached before models were recorded
+  model: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Normalize a custom prompt so trivially different spellings share a cache entry
+ *
+ * @param prompt - Prompt given after /summary
+ * @returns Lower-cased prompt with collapsed whitespace
+ */
+export function normalizeSummaryPrompt(prompt: string): string {
+  return prompt.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Fetch the cached summary for a chat, topic and prompt
+ *
+ * @param db - D1Database instance
+ * @param key - Chat, topic and normalized prompt
+ * @returns Promise<CachedSummary | null>
+ */
+export async function getCachedSummary(
+  db: D1Database,
+  key: SummaryCacheKey
+): Promise<CachedSummary | null> {
+  return await db
+    .prepare(
+      `SELECT last_message_id, message_count, summary, model, created_at, updated_at FROM summary_cache
+       WHERE platform = ? AND chat_id = ? AND message_thread_id = ? AND prompt = ?`
+    )
+    .bind(key.platform, key.chatId, key.threadId ?? '', key.prompt)
+    .first<CachedSummary>();
+}
+
+/**
+ * Store the summary for a chat, topic and prompt, replacing the previous one
+ *
+ * @param db - D1Database instance
+ * @param key - Chat, topic and normalized prompt
+ * @param entry - Summary and the newest message it covers
+ */
+export async function saveCachedSummary(
+  db: D1Database,
+  key: SummaryCacheKey,
+  entry: CachedSummary
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO summary_cache (platform, chat_id, message_thread_id, prompt, last_message_id, message_count, summary, model, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (platform, chat_id, message_thread_id, prompt)
+       DO UPDATE SET last_message_id = excluded.last_message_id, message_count = excluded.message_count,
+                     summary = excluded.summary, model = excluded.model, created_at = excluded.created_at, updated_at = excluded.updated_at`
+    )
+    .bind(
+      key.platform,
+      key.chatId,
+      key.threadId ?? '',
+      key.prompt,
+      entry.last_message_id,
+      entry.message_count,
+      entry.summary,
+      entry.model,
+      entry.created_at,
+      entry.updated_at
+    )
+    .run();
+}
+
+/**
+ * Delete cached summaries that are too old to be extended
+ *
+ * @param db - D1Database instance
+ * @param now - Time the cron was scheduled for
+ * @returns Promise<number> - Number of summaries deleted
+ */
+export async function pruneSummaryCache(db: D1Database, now: Date): Promise<number> {
+  const cutoff = new Date(now.getTime() - SUMMARY_CACHE_MAX_AGE_MS).toISOString();
+  const result = await db
+    .prepare('DELETE FROM summary_cache WHERE updated_at < ?')
+    .bind(cutoff)
+    .run();
+  return result.meta.changes ?? 0;
+}
@@ -0,0 +1,284 @@
+// Typed client for the Telegram Bot API methods the bot uses
+import {
+  TelegramApiResponse,
+  TelegramChat,
+  TelegramChatId,
+  TelegramChatMember,
+  TelegramDeleteMessageParams,
+  TelegramEditMessageTextParams,
+  TelegramMessage,
+  TelegramSendChatActionParams,
+  TelegramSendMessageParams,
+  TelegramSetMyCommandsParams,
+  TelegramSetWebhookParams,
+  TelegramUser,
+} from '../types/telegram';
+
+const DEFAULT_API_BASE_URL = 'https://api.telegram.org';
+
+// Attempts per call, counting the first one
+const DEFAULT_MAX_ATTEMPTS = 3;
+// Delay before the first retry of a network or server error, doubled for each later retry
+const RETRY_BASE_DELAY_MS = 500;
+// Flood waits longer than this fail right away instead of holding the worker open
+const DEFAULT_MAX_RETRY_AFTER_SECONDS = 30;
+// Methods that are safe to call twice. After a network error Telegram may have
+// handled the call anyway, so other methods, like sendMessage, aren't retried then.
+const IDEMPOTENT_METHODS = new Set([
+  'getMe',
+  'getChat',
+  'getChatAdministrators',
+  'sendChatAction',
+  'editMessageText',
+  'setMyCommands',
+  'setWebhook',
+]);
+
+export interface TelegramClientOptions {
+  // Bot API server, e.g. a local stub; defaults to https://api.telegram.org
+  apiBaseUrl?: string;
+  maxAttempts?: number;
+  maxRetryAfterSeconds?: number;
+}
+
+/**
+ * An `ok: false` answer from the Bot API
+ */
+export class TelegramApiError extends Error {
+  readonly method: string;
+  readonly errorCode: number;
+  readonly description: string;
+  // Seconds to wait before calling again, set on 429 Too Many Requests
+  readonly retryAfter?: number;
+
+  constructor(method: string, response: TelegramApiResponse<unknown>) {
+    const errorCode = response.error_code ?? 0;
+    const description = response.description || 'Unknown error';
+    super(`Telegram ${method} failed: ${errorCode} ${description}`);
+    this.name = 'TelegramApiError';
+    this.method = method;
+    this.errorCode = errorCode;
+    this.description = description;
+    this.retryAfter = response.parameters?.retry_after;
+  }
+}
+
+/**
+ * Wait for the given number of milliseconds
+ *
+ * @param ms - Delay in milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Telegram Bot API client
+ *
+ * Every method resolves with the method's `result` and throws a TelegramApiError
+ * when Telegram answers `ok: false`. Server errors are retried with exponential
+ * backoff, and so are network errors of idempotent methods. 429 answers are
+ * retried after Telegram's `retry_after`.
+ */
+export class TelegramClient {
+  private readonly baseUrl: string;
+  private readonly maxAttempts: number;
+  private readonly maxRetryAfterSeconds: number;
+
+  /**
+   * @param botToken - The Telegram bot token
+   * @param options - API base URL and retry limits
+   */
+  constructor(
+    private readonly botToken: string,
+    options: TelegramClientOptions = {}
+  ) {
+    this.baseUrl = (options.apiBaseUrl || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    this.maxRetryAfterSeconds = options.maxRetryAfterSeconds ?? DEFAULT_MAX_RETRY_AFTER_SECONDS;
+  }
+
+  /**
+   * Call a Bot API method, retrying failures that are worth retrying
+   *
+   * @param method - Bot API method name, e.g. "sendMessage"
+   * @param params - JSON parameters of the method
+   * @returns Promise<T> - The method's result
+   */
+  async call<T>(method: string, params: object = {}): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      let response: TelegramApiResponse<T>;
+      try {
+        response = await this.request<T>(method, params);
+      } catch (error) {
+        // Network failure, Telegram never saw the request or its answer was lost
+        if (attempt >= this.maxAttempts || !IDEMPOTENT_METHODS.has(method)) {
+          throw error;
+        }
+        await this.wait(method, attempt, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), error);
+        continue;
+      }
+
+      if (response.ok) {
+        return response.result as T;
+      }
+
+      const error = new TelegramApiError(method, response);
+      const delay = this.getRetryDelay(error, attempt);
+      if (delay === null) {
+        throw error;
+      }
+      await this.wait(method, attempt, delay, error.message);
+    }
+  }
+
+  /**
+   * Send one POST request to the Bot API
+   *
+   * @param method - Bot API method name
+   * @param params - JSON parameters of the method
+   * @returns Promise<TelegramApiResponse<T>> - Telegram's answer, or one made up from the HTTP status
+   */
+  private async request<T>(method: string, params: object): Promise<TelegramApiResponse<T>> {
+    const response = await fetch(`${this.baseUrl}/bot${this.botToken}/${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(params),
+    });
+
+    try {
+      return (await response.json()) as TelegramApiResponse<T>;
+    } catch {
+      // Proxies and load balancers answer with HTML error pages
+      return {
+        ok: false,
+        error_code: response.status,
+        description: response.statusText || 'Invalid response from the Bot API',
+      };
+    }
+  }
+
+  /**
+   * Decide whether and when a failed call is retried
+   *
+   * @param error - The error Telegram answered with
+   * @param attempt - Number of attempts made so far
+   * @returns Delay in milliseconds, or null to give up
+   */
+  private getRetryDelay(error: TelegramApiError, attempt: number): number | null {
+    if (attempt >= this.maxAttempts) {
+      return null;
+    }
+
+    if (error.errorCode === 429) {
+      const retryAfter = error.retryAfter ?? 1;
+      return retryAfter <= this.maxRetryAfterSeconds ? retryAfter * 1000 : null;
+    }
+
+    if (error.errorCode >= 500) {
+      return RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+    }
+
+    return null;
+  }
+
+  /**
+   * Log a retry and wait before making it
+   *
+   * @param method - Bot API method name
+   * @param attempt - Number of attempts made so far
+   * @param delay - Delay in milliseconds
+   * @param reason - Why the last attempt failed
+   */
+  private async wait(method: string, attempt: number, delay: number, reason: unknown) {
+    const timestamp = new Date().toISOString();
+    console.warn(
+      `[${timestamp}] Retrying Telegram ${method} in ${delay}ms (attempt ${attempt} of ${this.maxAttempts} failed):`,
+      reason
+    );
+    await sleep(delay);
+  }
+
+  /**
+   * @returns Promise<TelegramUser> - The bot's own user
+   */
+  getMe(): Promise<TelegramUser> {
+    return this.call<TelegramUser>('getMe');
+  }
+
+  /**
+   * @param params - sendMessage parameters
+   * @returns Promise<TelegramMessage> - The sent message
+   */
+  sendMessage(params: TelegramSendMessageParams): Promise<TelegramMessage> {
+    return this.call<TelegramMessage>('sendMessage', params);
+  }
+
+  /**
+   * @param params - editMessageText parameters
+   * @returns Promise<TelegramMessage> - The edited message
+   */
+  editMessageText(params: TelegramEditMessageTextParams): Promise<TelegramMessage> {
+    return this.call<TelegramMessage>('editMessageText', params);
+  }
+
+  /**
+   * @param params - Chat and message to delete
+   * @returns Promise<boolean>
+   */
+  deleteMessage(params: TelegramDeleteMessageParams): Promise<boolean> {
+    return this.call<boolean>('deleteMessage', params);
+  }
+
+  /**
+   * @param params - Chat, action and optional forum topic
+   * @returns Promise<boolean>
+   */
+  sendChatAction(params: TelegramSendChatActionParams): Promise<boolean> {
+    return this.call<boolean>('sendChatAction', params);
+  }
+
+  /**
+   * @param chatId - The chat ID to look up
+   * @returns Promise<TelegramChat>
+   */
+  getChat(chatId: TelegramChatId): Promise<TelegramChat> {
+    return this.call<TelegramChat>('getChat', { chat_id: chatId });
+  }
+
+  /**
+   * @param chatId - The chat ID to look up
+   * @returns Promise<TelegramChatMember[]> - Administrators of the chat, other bots included
+   */
+  getChatAdministrators(chatId: TelegramChatId): Promise<TelegramChatMember[]> {
+    return this.call<TelegramChatMember[]>('getChatAdministrators', { chat_id: chatId });
+  }
+
+  /**
+   * @param params - Commands and the scope they apply to
+   * @returns Promise<boolean>
+   */
+  setMyCommands(params: TelegramSetMyCommandsParams): Promise<boolean> {
+    return this.call<boolean>('setMyCommands', params);
+  }
+
+  /**
+   * @param params - Webhook URL and secret token
+   * @returns Promise<boolean>
+   */
+  setWebhook(params: TelegramSetWebhookParams): Promise<boolean> {
+    return this.call<boolean>('setWebhook', params);
+  }
+}
+
+/**
+ * Create a Bot API client from the worker's bindings
+ *
+ * @param env - Worker bindings
+ * @returns TelegramClient using TELEGRAM_BOT_TOKEN and TELEGRAM_API_BASE_URL
+ */
+export function createTelegramClient(env: CloudflareBindings): TelegramClient {
+  return new TelegramClient(env.TELEGRAM_BOT_TOKEN, { apiBaseUrl: env.TELEGRAM_API_BASE_URL });
+}
@@ -1,5 +1,12 @@
 // Telegram helpers for channel and supergroup message recording
-import { TelegramMessage } from '../types/telegram';
+import {
+  TelegramChat,
+  TelegramChatMember,
+  TelegramMessage,
+  TelegramSendMessageParams,
+} from '../types/telegram';
+import { renderTelegramHTML, splitTelegramHTML } from './render-helpers';
+import { TelegramApiError, TelegramClient } from './telegram-client';
 
 /**
  * Record a message from a Telegram channel or supergroup in the database
@@ -22,12 +29,17 @@ export async function recordTelegramChannelMessage(
     const chatTitle = message.chat.title || 'Unknown Channel';
 
     // Get sender info if available
-    const senderId = message.from ? message.from.id.toString() : null;
+    let senderId = message.from ? message.from.id.toString() : null;
     let senderName = 'Unknown User';
     if (message.from) {
       senderName = message.from.first_name
         ? `${message.from.first_name}${message.from.last_name ? ' ' + message.from.last_name : ''}`
         : message.from.username || 'Unknown User';
+    } else if (chatType === 'channel') {
+      // Channel posts have no user; attribute them to the signing author or the channel itself
+      const senderChat = message.sender_chat || message.chat;
+      senderId = senderChat.id.toString();
+      senderName = message.author_signature || senderChat.title || chatTitle;
     }
 
     console.log(`[${timestamp}] Recording ${chatType} message from chat: ${chatTitle} (${chatId})`); // Determine media type if any
@@ -58,10 +70,10 @@ export async function recordTelegramChannelMessage(
     // Get message thread ID if it exists
     const messageThreadId = message.message_thread_id?.toString() || null;
 
-    // Insert message into the database
-    await db
+    // Insert message into the database, ignoring messages that are already archived
+    const result = await db
       .prepare(
-        `INSERT INTO telegram_channel_messages (
+        `INSERT OR IGNORE INTO telegram_channel_messages (
           message_id, 
           chat_id, 
           chat_type, 
@@ -92,6 +104,17 @@ export async function recordTelegramChannelMessage(
       )
       .run();
 
+    // Index the text for /search, keyed by the archive row's id
+    if (result.meta.changes > 0 && message.text) {
+      await db
+        .prepare(
+          `INSERT INTO telegram_messages_fts (rowid, message_text)
+           SELECT id, message_text FROM telegram_channel_messages WHERE chat_id = ? AND message_id = ?`
+        )
+        .bind(chatId, message.message_id.toString())
+        .run();
+    }
+
     console.log(`[${timestamp}] Successfully recorded ${chatType} message from: ${chatTitle}`);
   } catch (error) {
     const timestamp = new Date().toISOString();
@@ -103,56 +126,193 @@ export async function recordTelegramChannelMessage(
 /**
  * Send a message to a Telegram chat
  *
- * @param botToken - The Telegram bot token
+ * The text is rendered into valid Telegram HTML first, and text longer than
+ * Telegram's limit is sent as several messages; only the first one is a reply.
+ *
+ * @param client - Telegram Bot API client
  * @param chatId - The chat ID to send the message to
  * @param text - The message text to send
  * @param threadId - Optional message thread ID for forum topics
- * @returns Promise<Response>
+ * @param replyToMessageId - Optional message to reply to
+ * @returns Promise<TelegramMessage[]> - The sent messages, none if the text was empty.
+ * Throws a TelegramApiError if a part can't be sent; the parts before it stay sent.
  */
 export async function sendTelegramMessage(
-  botToken: string,
+  client: TelegramClient,
   chatId: string | number,
   text: string,
   threadId?: string | number,
   replyToMessageId?: number
-): Promise<Response> {
-  const apiUrl = `https://api.telegram.org/bot${botToken}/sendMessage`;
-
-  const payload: {
-    chat_id: string | number;
-    text: string;
-    message_thread_id?: string | number;
-    parse_mode: 'HTML';
-    reply_to_message_id?: number;
-  } = {
-    chat_id: chatId,
-    text: text,
-    parse_mode: 'HTML', // Use HTML parsing for better formatting
-  };
+): Promise<TelegramMessage[]> {
+  const parts = splitTelegramHTML(renderTelegramHTML(text));
 
-  if (threadId) {
-    payload.message_thread_id = threadId;
+  const sent: TelegramMessage[] = [];
+  for (const [index, part] of parts.entries()) {
+    const params: TelegramSendMessageParams = {
+      chat_id: chatId,
+      text: part,
+      parse_mode: 'HTML', // Use HTML parsing for better formatting
+    };
+
+    if (threadId) {
+      params.message_thread_id = threadId;
+    }
+
+    if (replyToMessageId && index === 0) {
+      params.reply_to_message_id = replyToMessageId;
+    }
+
+    try {
+      sent.push(await client.sendMessage(params));
+    } catch (error) {
+      console.error(`[sendTelegramMessage] Part ${index + 1} of ${parts.length} failed:`, error);
+      throw error;
+    }
   }
 
-  if (replyToMessageId) {
-    payload.reply_to_message_id = replyToMessageId;
+  return sent;
+}
+
+// Minimum time between edits of a live message, to stay within Telegram's edit rate limits
+const LIVE_EDIT_INTERVAL_MS = 3000;
+
+export interface TelegramLiveMessage {
+  // ID of the placeholder message
+  messageId: number;
+  // Show a partial answer; calls are throttled, so only some of them are shown
+  update: (text: string) => void;
+  // Replace the message with the final answer, split into more messages if it's too long
+  finish: (text: string) => Promise<void>;
+}
+
+/**
+ * Post a placeholder message that is edited as an answer is generated
+ *
+ * Partial answers are shown at most every few seconds with editMessageText, and
+ * a failed partial edit is only logged. If the final edit fails, e.g. because
+ * the placeholder was deleted, the answer is sent as a new message instead.
+ *
+ * @param client - Telegram Bot API client
+ * @param chatId - The chat ID to send the message to
+ * @param placeholder - Text shown until the first partial answer
+ * @param threadId - Optional message thread ID for forum topics
+ * @param replyToMessageId - Optional message to reply to
+ * @returns Promise<TelegramLiveMessage>
+ */
+export async function startTelegramLiveMessage(
+  client: TelegramClient,
+  chatId: string | number,
+  placeholder: string,
+  threadId?: string | number,
+  replyToMessageId?: number
+): Promise<TelegramLiveMessage> {
+  const [message] = await sendTelegramMessage(
+    client,
+    chatId,
+    placeholder,
+    threadId,
+    replyToMessageId
+  );
+  if (!message) {
+    throw new Error('Live message placeholder is empty');
   }
 
-  const response = await fetch(apiUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
+  return resumeTelegramLiveMessage(
+    client,
+    chatId,
+    message.message_id,
+    threadId,
+    renderTelegramHTML(placeholder)
+  );
+}
+
+/**
+ * Continue a live message that was posted earlier, e.g. by another worker invocation
+ *
+ * @param client - Telegram Bot API client
+ * @param chatId - The chat the placeholder was sent to
+ * @param messageId - ID of the placeholder message
+ * @param threadId - Optional message thread ID for forum topics
+ * @param shown - HTML the placeholder shows, if known; an unknown text is always replaced
+ * @returns TelegramLiveMessage
+ */
+export function resumeTelegramLiveMessage(
+  client: TelegramClient,
+  chatId: string | number,
+  messageId: number,
+  threadId?: string | number,
+  shown?: string
+): TelegramLiveMessage {
+  let lastEditAt = Date.now();
+  let pendingEdit: Promise<void> | null = null;
+
+  const edit = async (html: string) => {
+    try {
+      await client.editMessageText({
+        chat_id: chatId,
+        message_id: messageId,
+        text: html,
+        parse_mode: 'HTML',
+      });
+    } catch (error) {
+      // A retried edit whose first attempt went through already shows the text
+      if (
+        !(error instanceof TelegramApiError && /message is not modified/i.test(error.description))
+      ) {
+        throw error;
+      }
+    }
+    shown = html;
+  };
+
+  return {
+    messageId,
+    update: text => {
+      if (pendingEdit || Date.now() - lastEditAt < LIVE_EDIT_INTERVAL_MS) {
+        return;
+      }
+
+      // Long partial answers only show their first part until they are finished
+      const [preview] = splitTelegramHTML(renderTelegramHTML(`${text.trimEnd()} …`));
+      if (!preview || preview === shown) {
+        return;
+      }
+
+      lastEditAt = Date.now();
+      pendingEdit = edit(preview)
+        .catch(error => console.error('[resumeTelegramLiveMessage] Partial edit failed:', error))
+        .finally(() => {
+          pendingEdit = null;
+          lastEditAt = Date.now();
+        });
     },
-    body: JSON.stringify(payload),
-  });
+    finish: async text => {
+      await pendingEdit;
 
-  // Log the response for debugging telegram parser breakage
-  // const responseText = await response.text();
-  // console.log(
-  //   `[sendTelegramMessage] API Response: ${response.status} - ${responseText}`
-  // );
+      const [first, ...rest] = splitTelegramHTML(renderTelegramHTML(text));
+      if (!first) {
+        await client.deleteMessage({ chat_id: chatId, message_id: messageId });
+        return;
+      }
 
-  return response;
+      try {
+        if (first !== shown) {
+          await edit(first);
+        }
+      } catch (error) {
+        console.error(
+          '[resumeTelegramLiveMessage] Final edit failed, sending a new message:',
+          error
+        );
+        await sendTelegramMessage(client, chatId, text, threadId);
+        return;
+      }
+
+      for (const part of rest) {
+        await sendTelegramMessage(client, chatId, part, threadId);
+      }
+    },
+  };
 }
 
 /**
@@ -162,16 +322,27 @@ export async function sendTelegramMessage(
  * @param chatId - The chat ID to fetch messages from
  * @param threadId - Optional thread ID to filter messages by thread
  * @param limit - The maximum number of messages to fetch
- * @returns Promise<Array<{ message_text: string, sender_name: string, message_date: string, message_thread_id: string }>>
+ * @param options - Optional date window: `since` (inclusive) and `until` (exclusive) ISO timestamps,
+ *                  `afterMessageId` (exclusive) or `fromMessageId` (inclusive) to start at a message,
+ *                  and `senderId` to only fetch one member's messages
+ * @returns Promise<Array<{ message_id: string, message_text: string, sender_name: string, message_date: string, message_thread_id: string }>>
 
  */
 export async function fetchRecentMessages(
   db: D1Database,
   chatId: string,
   limit: number = 200,
-  threadId?: string
+  threadId?: string,
+  options: {
+    since?: string;
+    until?: string;
+    afterMessageId?: string;
+    fromMessageId?: string;
+    senderId?: string;
+  } = {}
 ): Promise<
   Array<{
+    message_id: string;
     message_text: string;
     sender_name: string;
     message_date: string;
@@ -179,7 +350,7 @@ export async function fetchRecentMessages(
   }>
 > {
   try {
-    let query = `SELECT message_text, sender_name, message_date, message_thread_id FROM telegram_channel_messages 
+    let query = `SELECT message_id, message_text, sender_name, message_date, message_thread_id FROM telegram_channel_messages 
                 WHERE chat_id = ? AND message_text != ''`;
 
     const params = [chatId];
@@ -189,6 +360,32 @@ export async function fetchRecentMessages(
       params.push(threadId);
     }
 
+    if (options.since) {
+      query += ` AND message_date >= ?`;
+      params.push(options.since);
+    }
+
+    if (options.until) {
+      query += ` AND message_date < ?`;
+      params.push(options.until);
+    }
+
+    // Message IDs grow within a chat, so this selects messages newer than the given one
+    if (options.afterMessageId) {
+      query += ` AND CAST(message_id AS INTEGER) > CAST(? AS INTEGER)`;
+      params.push(options.afterMessageId);
+    }
+
+    if (options.fromMessageId) {
+      query += ` AND CAST(message_id AS INTEGER) >= CAST(? AS INTEGER)`;
+      params.push(options.fromMessageId);
+    }
+
+    if (options.senderId) {
+      query += ` AND sender_id = ?`;
+      params.push(options.senderId);
+    }
+
     query += ` ORDER BY message_date DESC LIMIT ?`;
     params.push(limit.toString());
 
@@ -198,6 +395,7 @@ export async function fetchRecentMessages(
       .all();
 
     return messages.results as Array<{
+      message_id: string;
       message_text: string;
       sender_name: string;
       message_date: string;
@@ -210,44 +408,158 @@ export async function fetchRecentMessages(
 }
 
 /**
- * Send a chat action (e.g., "typing") to a Telegram chat
+ * Apply an edited Telegram message to the archive
  *
- * @param botToken - The Telegram bot token
- * @param chatId - The chat ID to send the action to
- * @param action - The type of action to send (e.g., "typing", "upload_photo")
- * @param threadId - Optional message thread ID for forum topics
- * @returns Promise<Response>
+ * The archived text is replaced with the new version and the previous text is
+ * kept in telegram_message_edits. Edits older than the archived version are ignored.
+ *
+ * @param db - D1Database instance
+ * @param message - The edited Telegram message object
+ * @returns Promise with the original message date and the change in text length,
+ * or null if the message isn't archived or nothing changed
  */
-export async function sendTelegramChatAction(
-  botToken: string,
-  chatId: string | number,
-  action: string,
-  threadId?: string | number
-): Promise<Response> {
-  const apiUrl = `https://api.telegram.org/bot${botToken}/sendChatAction`;
-
-  const payload: {
-    chat_id: string | number;
-    action: string;
-    message_thread_id?: string | number;
-  } = {
-    chat_id: chatId,
-    action: action,
-  };
+export async function recordTelegramMessageEdit(
+  db: D1Database,
+  message: TelegramMessage
+): Promise<{ messageDate: string; lengthDelta: number } | null> {
+  try {
+    const timestamp = new Date().toISOString();
+    const chatId = message.chat.id.toString();
+    const messageId = message.message_id.toString();
+    const editedAt = new Date((message.edit_date ?? message.date) * 1000).toISOString();
+    const newText = message.text || '';
+
+    const existing = await db
+      .prepare(
+        `SELECT message_text, message_date, edited_at FROM telegram_channel_messages
+         WHERE chat_id = ? AND message_id = ?`
+      )
+      .bind(chatId, messageId)
+      .first<{ message_text: string | null; message_date: string; edited_at: string | null }>();
 
-  if (threadId) {
-    payload.message_thread_id = threadId;
+    if (!existing) {
+      console.log(`[${timestamp}] Edited message ${messageId} in chat ${chatId} is not archived`);
+      return null;
+    }
+
+    const previousText = existing.message_text || '';
+    if (previousText === newText || (existing.edited_at && existing.edited_at > editedAt)) {
+      console.log(`[${timestamp}] Nothing to apply for edit of message ${messageId}`);
+      return null;
+    }
+
+    const archivedRow = `SELECT id FROM telegram_channel_messages WHERE chat_id = ? AND message_id = ?`;
+
+    await db.batch([
+      db
+        .prepare(
+          `INSERT INTO telegram_message_edits (chat_id, message_id, previous_text, edited_at)
+           VALUES (?, ?, ?, ?)`
+        )
+        .bind(chatId, messageId, previousText, editedAt),
+      db
+        .prepare(
+          `UPDATE telegram_channel_messages SET message_text = ?, edited_at = ?
+           WHERE chat_id = ? AND message_id = ?`
+        )
+        .bind(newText, editedAt, chatId, messageId),
+      // Re-index the new text for /search
+      db
+        .prepare(`DELETE FROM telegram_messages_fts WHERE rowid = (${archivedRow})`)
+        .bind(chatId, messageId),
+      db
+        .prepare(
+          `INSERT INTO telegram_messages_fts (rowid, message_text)
+           SELECT id, message_text FROM telegram_channel_messages
+           WHERE id = (${archivedRow}) AND message_text != ''`
+        )
+        .bind(chatId, messageId),
+    ]);
+
+    console.log(`[${timestamp}] Recorded edit of message ${messageId} in chat ${chatId}`);
+
+    return {
+      messageDate: existing.message_date,
+      lengthDelta: newText.length - previousText.length,
+    };
+  } catch (error) {
+    const timestamp = new Date().toISOString();
+    console.error(`[${timestamp}] Error recording message edit:`, error);
+    throw error;
   }
+}
 
-  const response = await fetch(apiUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(payload),
-  });
+/**
+ * Fetch up-to-date information about a Telegram chat
+ *
+ * @param client - Telegram Bot API client
+ * @param chatId - The chat ID to look up
+ * @returns Promise<TelegramChat | null> - null if Telegram returned an error
+ */
+export async function getTelegramChat(
+  client: TelegramClient,
+  chatId: string | number
+): Promise<TelegramChat | null> {
+  try {
+    return await client.getChat(chatId);
+  } catch (error) {
+    if (error instanceof TelegramApiError) {
+      console.error(`[getTelegramChat] getChat failed for chat ${chatId}: ${error.description}`);
+      return null;
+    }
+    throw error;
+  }
+}
+
+// How long a chat's administrator list is trusted before asking Telegram again
+const ADMIN_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Check whether a user is an administrator of a Telegram chat
+ *
+ * The administrator list comes from getChatAdministrators and is cached in
+ * telegram_chat_admins for a few minutes.
+ *
+ * @param db - D1Database instance
+ * @param client - Telegram Bot API client
+ * @param chatId - The chat ID to check
+ * @param userId - The Telegram user ID to check
+ * @returns Promise<boolean>
+ */
+export async function isTelegramChatAdmin(
+  db: D1Database,
+  client: TelegramClient,
+  chatId: string,
+  userId: string
+): Promise<boolean> {
+  const cached = await db
+    .prepare('SELECT admin_ids, fetched_at FROM telegram_chat_admins WHERE chat_id = ?')
+    .bind(chatId)
+    .first<{ admin_ids: string; fetched_at: string }>();
+
+  if (cached && Date.now() - Date.parse(cached.fetched_at) < ADMIN_CACHE_TTL_MS) {
+    return (JSON.parse(cached.admin_ids) as string[]).includes(userId);
+  }
+
+  let administrators: TelegramChatMember[];
+  try {
+    administrators = await client.getChatAdministrators(chatId);
+  } catch (error) {
+    if (error instanceof TelegramApiError) {
+      console.error(`[isTelegramChatAdmin] getChatAdministrators failed: ${error.description}`);
+      return false;
+    }
+    throw error;
+  }
+
+  const adminIds = administrators.map(member => member.user.id.toString());
+  await db
+    .prepare(
+      `INSERT INTO telegram_chat_admins (chat_id, admin_ids, fetched_at) VALUES (?, ?, ?)
+       ON CONFLICT (chat_id) DO UPDATE SET admin_ids = excluded.admin_ids, fetched_at = excluded.fetched_at`
+    )
+    .bind(chatId, JSON.stringify(adminIds), new Date().toISOString())
+    .run();
 
-  const responseText = await response.text();
-  console.log(`[sendTelegramChatAction] API Response: ${response.status} - ${responseText}`);
-  return response;
+  return adminIds.includes(userId);
 }
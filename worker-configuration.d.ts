@@ -5,9 +5,23 @@ declare namespace Cloudflare {
 	interface Env {
 		TELEGRAM_BOT_TOKEN: string;
 		DEV_MODE: string;
+		API_KEY: string;
+		ADMIN_API_KEY: string;
+		TELEGRAM_WEBHOOK_SECRET: string;
+		TELEGRAM_BOT_USERNAME: string;
+		DEFAULT_RETENTION_DAYS: string;
+		DISCORD_WEBHOOK_SECRET: string;
+		DISCORD_PUBLIC_KEY: string;
+		DISCORD_APPLICATION_ID: string;
+		DISCORD_BOT_TOKEN: string;
+		LINK_API_BASE_URL: string;
+		TELEGRAM_API_BASE_URL: string;
+		AI_MODELS: string;
+		AI_GATEWAY_ID: string;
 		DB: D1Database;
 		AI: Ai;
 		ASSETS: Fetcher;
+		SUMMARY_QUEUE: Queue;
 	}
 }
 interface CloudflareBindings extends Cloudflare.Env {}